@@ -252,11 +252,14 @@ test.describe('Semantic Find on Wikipedia', () => {
 
     const highlightInfo = await page.evaluate(() => {
       if ('highlights' in CSS) {
-        const highlight = (CSS as any).highlights.get('semantic-find-highlight');
+        // Results are split across one highlight per score tier
+        const highlights = Array.from((CSS as any).highlights.entries() as Iterable<[string, { size: number }]>);
         const activeHighlight = (CSS as any).highlights.get('semantic-find-highlight-active');
         return {
           hasAPI: true,
-          highlightSize: highlight?.size || 0,
+          highlightSize: highlights
+            .filter(([name]) => name.startsWith('semantic-find-highlight-') && !name.includes('active'))
+            .reduce((size, [, highlight]) => size + highlight.size, 0),
           activeHighlightSize: activeHighlight?.size || 0,
         };
       }
@@ -330,9 +333,10 @@ test.describe('Semantic Find on Wikipedia', () => {
 
     const highlightCount = await page.evaluate(() => {
       if ('highlights' in CSS) {
-        const highlight = (CSS as any).highlights.get('semantic-find-highlight');
-        const activeHighlight = (CSS as any).highlights.get('semantic-find-highlight-active');
-        return (highlight?.size || 0) + (activeHighlight?.size || 0);
+        const highlights = Array.from((CSS as any).highlights.entries() as Iterable<[string, { size: number }]>);
+        return highlights
+          .filter(([name]) => name.startsWith('semantic-find-highlight'))
+          .reduce((size, [, highlight]) => size + highlight.size, 0);
       }
       return document.querySelectorAll('.semantic-find-highlight').length;
     });
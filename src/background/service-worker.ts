@@ -1,7 +1,12 @@
-import type { Message, GetEmbeddingsResponse, SearchQueryResponse, GetModelStatusResponse, GetSettingsResponse, GenerateSummaryResponse, DownloadLLMResponse, GetLLMStatusResponse } from '../shared/messages';
-import type { Settings, TextChunk, ModelStatus } from '../shared/types';
+import type { Message, GetEmbeddingsResponse, SearchQueryResponse, GetModelStatusResponse, GetSettingsResponse, GenerateSummaryResponse, DownloadLLMResponse, GetLLMStatusResponse, CountTokensResponse, CollectFrameChunksResponse, GetFrameChunksResponse, FrameCommand } from '../shared/messages';
+import type { Settings, TextChunk, SearchResult, ModelStatus, MatchKind, SiteSearchMode } from '../shared/types';
 import { DEFAULT_SETTINGS } from '../shared/types';
-import { cosineSimilarity } from '../shared/similarity';
+import { cosineSimilarity, fuseScores } from '../shared/similarity';
+import { createBM25Index, scoreBM25, scoreCeiling } from '../shared/bm25';
+import { getEmbeddingText } from '../shared/embedding-text';
+import { parseQuery, matchesQuery, QueryParseError } from '../shared/query-parser';
+import { matchesContentFilter } from '../shared/content-filter';
+import { segmentSentences, type TextSpan } from '../shared/segmenter';
 import { getCachedEmbeddings, cacheEmbeddings, clearOldCache } from './embedding-cache';
 
 console.log('[SemanticFind] Service worker started');
@@ -85,49 +90,120 @@ chrome.runtime.onMessage.addListener((message) => {
   }
 });
 
+// PDFs are searched in a bundled PDF.js viewer, since content scripts can't
+// reach into Chrome's own
+const VIEWER_URL = chrome.runtime.getURL('viewer.html');
+
 // Handle keyboard shortcut
 chrome.commands.onCommand.addListener((command) => {
   console.log('[SemanticFind] Command received:', command);
   if (command === 'toggle-semantic-search') {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      console.log('[SemanticFind] Active tab:', tabs[0]?.id, tabs[0]?.url);
-      if (tabs[0]?.id) {
-        chrome.tabs.sendMessage(tabs[0].id, { type: 'TOGGLE_OVERLAY' }, (response) => {
-          console.log('[SemanticFind] Toggle response:', response, chrome.runtime.lastError?.message);
+      const tab = tabs[0];
+      console.log('[SemanticFind] Active tab:', tab?.id, tab?.url);
+      if (!tab?.id) return;
+      const tabId = tab.id;
+
+      // Our PDF viewer is an extension page, which tabs.sendMessage doesn't reach
+      if (tab.url?.startsWith(VIEWER_URL)) {
+        chrome.runtime.sendMessage({ type: 'TOGGLE_OVERLAY', tabId }).catch(() => {
+          // The viewer page is still loading and has no listener yet
         });
+        return;
       }
+      if (tab.url && isPdfUrl(tab.url)) {
+        openInViewer(tabId, tab.url);
+        return;
+      }
+
+      chrome.tabs.sendMessage(tabId, { type: 'TOGGLE_OVERLAY' }, { frameId: 0 }, async (response) => {
+        const error = chrome.runtime.lastError?.message;
+        console.log('[SemanticFind] Toggle response:', response, error);
+
+        // No content script answered; Chrome's PDF viewer is one such page
+        if (error && tab.url && await servesPdf(tab.url)) {
+          openInViewer(tabId, tab.url);
+        }
+      });
     });
   }
 });
 
+function isPdfUrl(url: string): boolean {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+}
+
+// Whether a URL without a .pdf extension is a PDF, going by its content type
+async function servesPdf(url: string): Promise<boolean> {
+  if (!/^https?:/.test(url)) return false;
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.headers.get('content-type')?.split(';')[0].trim() === 'application/pdf';
+  } catch {
+    return false;
+  }
+}
+
+function openInViewer(tabId: number, url: string): void {
+  console.log('[SemanticFind] Opening PDF in viewer:', url);
+  chrome.tabs.update(tabId, { url: `${VIEWER_URL}?file=${encodeURIComponent(url)}&find` });
+}
+
+// Single-page apps change routes without reloading, which leaves the content
+// script's index describing the previous route. pushState and replaceState
+// happen in the page's own world, out of the content script's sight, so the
+// top frame hears about them from here.
+function notifyRouteChange(details: { tabId: number; url: string }): void {
+  chrome.tabs.sendMessage(details.tabId, { type: 'ROUTE_CHANGED', url: details.url }, { frameId: 0 }).catch(() => {
+    // No content script in this tab (e.g. a browser page)
+  });
+}
+
+chrome.webNavigation.onHistoryStateUpdated.addListener(notifyRouteChange);
+chrome.webNavigation.onReferenceFragmentUpdated.addListener(notifyRouteChange);
+
 // Handle messages from content script
-chrome.runtime.onMessage.addListener((message: Message, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) => {
   // Ignore offscreen messages
   if ((message as { target?: string }).target === 'offscreen') return;
   if ((message as { type?: string }).type === 'MODEL_PROGRESS') return;
 
-  handleMessage(message).then(sendResponse);
+  handleMessage(message, sender).then(sendResponse);
   return true;
 });
 
-async function handleMessage(message: Message): Promise<unknown> {
+async function handleMessage(message: Message, sender: chrome.runtime.MessageSender): Promise<unknown> {
   switch (message.type) {
     case 'GET_EMBEDDINGS':
       return handleGetEmbeddings(message.chunks, message.url);
     case 'SEARCH_QUERY':
-      return handleSearchQuery(message.query, message.chunks);
+      return handleSearchQuery(message.query, message.chunks, message.locale, message.mode);
     case 'GET_MODEL_STATUS':
       return handleGetModelStatus();
     case 'GET_SETTINGS':
       return handleGetSettings();
     case 'UPDATE_SETTINGS':
       return handleUpdateSettings(message.settings);
+    case 'SET_SITE_SEARCH_MODE':
+      return handleSetSiteSearchMode(message.origin, message.mode);
     case 'GENERATE_SUMMARY':
-      return handleGenerateSummary(message.query, message.topResults);
+      return handleGenerateSummary(message.query, message.topResults, message.locale);
     case 'DOWNLOAD_LLM':
       return handleDownloadLLM();
     case 'GET_LLM_STATUS':
       return handleGetLLMStatus();
+    case 'COUNT_TOKENS':
+      return handleCountTokens(message.texts);
+    case 'COLLECT_FRAME_CHUNKS':
+      return handleCollectFrameChunks(sender.tab?.id, message.frameId);
+    case 'FRAME_COMMAND':
+      return handleFrameCommand(sender.tab?.id, message.command, message.frameId);
+    case 'FRAME_CHANGED':
+      return handleFrameChanged(sender.tab?.id, sender.frameId);
     default:
       return { success: false, error: 'Unknown message type' };
   }
@@ -135,25 +211,29 @@ async function handleMessage(message: Message): Promise<unknown> {
 
 async function handleGetEmbeddings(chunks: TextChunk[], url: string): Promise<GetEmbeddingsResponse> {
   try {
-    // Check cache first
+    // Chunk ids are stable across loads, so reuse every cached embedding whose
+    // chunk is still on the page unchanged, as well as any the caller already has
     const cached = await getCachedEmbeddings(url);
-    if (cached && cached.length === chunks.length) {
-      const textsMatch = chunks.every((chunk, i) => chunk.text === cached[i].text);
-      if (textsMatch) {
-        console.log('[SemanticFind] Using cached embeddings');
-        return { success: true, chunks: cached };
-      }
+    const cachedById = new Map((cached || []).filter((chunk) => chunk.embedding).map((chunk) => [chunk.id, chunk]));
+    const isCached = (chunk: TextChunk) => !!chunk.embedding || cachedById.get(chunk.id)?.text === chunk.text;
+    const cachedEmbedding = (chunk: TextChunk) => chunk.embedding ?? cachedById.get(chunk.id)!.embedding;
+
+    const missing = chunks.filter((chunk) => !isCached(chunk));
+    if (missing.length === 0) {
+      console.log('[SemanticFind] Using cached embeddings');
+      return { success: true, chunks: chunks.map((chunk) => ({ ...chunk, embedding: cachedEmbedding(chunk) })) };
     }
 
     // Generate embeddings via offscreen document
-    console.log('[SemanticFind] Generating embeddings for', chunks.length, 'chunks');
-    const texts = chunks.map((c) => c.text);
+    console.log('[SemanticFind] Generating embeddings for', missing.length, 'of', chunks.length, 'chunks');
+    const texts = missing.map(getEmbeddingText);
 
     const response = await sendToOffscreen('GENERATE_EMBEDDINGS', { texts }) as { embeddings: (number[] | null)[] };
+    const generated = new Map(missing.map((chunk, i) => [chunk.id, response.embeddings[i] || undefined]));
 
-    const chunksWithEmbeddings = chunks.map((chunk, i) => ({
+    const chunksWithEmbeddings = chunks.map((chunk) => ({
       ...chunk,
-      embedding: response.embeddings[i] || undefined,
+      embedding: generated.has(chunk.id) ? generated.get(chunk.id) : cachedEmbedding(chunk),
     }));
 
     await cacheEmbeddings(url, chunksWithEmbeddings);
@@ -164,33 +244,188 @@ async function handleGetEmbeddings(chunks: TextChunk[], url: string): Promise<Ge
   }
 }
 
-async function handleSearchQuery(query: string, chunks: TextChunk[]): Promise<SearchQueryResponse> {
+// Rank chunks by how close their meaning is to the query's, blended with how
+// well they match its words; a result needs to pass on one or the other, and
+// the query's phrases, required and excluded terms
+async function handleSearchQuery(query: string, chunks: TextChunk[], locale?: string, mode: 'semantic' | 'hybrid' = 'semantic'): Promise<SearchQueryResponse> {
   try {
-    const response = await sendToOffscreen('GENERATE_EMBEDDING', { text: query }) as { embedding: number[] | null };
+    const parsed = parseQuery(query);
+    const response = await sendToOffscreen('GENERATE_EMBEDDING', { text: parsed.text }) as { embedding: number[] | null };
 
     if (!response.embedding) {
       return { success: false, error: 'Failed to generate query embedding' };
     }
 
     const settings = await getSettings();
-    const results = chunks
-      .filter((chunk) => chunk.embedding)
-      .map((chunk) => ({
-        chunk,
-        score: cosineSimilarity(response.embedding!, chunk.embedding!),
-        highlighted: false,
-      }))
-      .filter((result) => result.score >= settings.similarityThreshold)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 20);
-
-    return { success: true, results };
+    const candidates = chunks.filter((chunk) => matchesContentFilter(chunk, settings.contentFilter) && matchesQuery(chunk.text, parsed, locale));
+    const lexicalScores = getLexicalScores(parsed.text, candidates, locale);
+    const weight = mode === 'semantic' ? 0 : Math.min(1, Math.max(0, settings.lexicalWeight));
+
+    const matches: SearchResult[] = [];
+    candidates.forEach((chunk, i) => {
+      const semantic = chunk.embedding ? cosineSimilarity(response.embedding!, chunk.embedding) : 0;
+      const lexical = lexicalScores[i];
+
+      const matchedBy: MatchKind[] = [];
+      if (semantic >= settings.similarityThreshold) matchedBy.push('semantic');
+      if (weight > 0 && lexical >= LEXICAL_MATCH_SCORE) matchedBy.push('lexical');
+      if (matchedBy.length === 0) return;
+
+      matches.push({ chunk, score: fuseScores(semantic, lexical, weight), highlighted: false, matchedBy });
+    });
+    const results = matches.sort((a, b) => b.score - a.score).slice(0, 20);
+
+    return { success: true, results: await focusSentences(results, response.embedding, locale) };
   } catch (error) {
+    if (error instanceof QueryParseError) {
+      return { success: false, error: error.message, queryError: error.message };
+    }
     console.error('[SemanticFind] Search error:', error);
     return { success: false, error: String(error) };
   }
 }
 
+// Share of the query's BM25 ceiling a chunk needs for its words alone to make
+// it a result; chunks matching only common words of the query score lower
+const LEXICAL_MATCH_SCORE = 0.5;
+
+// BM25 scores of chunks for a query, scaled by the most its words could score
+// on this page so they blend with cosine similarities
+function getLexicalScores(query: string, chunks: TextChunk[], locale?: string): number[] {
+  const index = createBM25Index(chunks.map((chunk) => chunk.text), locale);
+  const scores = scoreBM25(index, query, locale);
+  const ceiling = scoreCeiling(index, query, locale);
+  return ceiling > 0 ? scores.map((score) => Math.min(1, score / ceiling)) : scores;
+}
+
+// Top results whose sentences are scored on their own
+const FOCUS_RESULTS = 10;
+
+// Sentences too short to say much on their own, e.g. "See below."
+const MIN_FOCUS_SENTENCE_LENGTH = 20;
+
+// Second pass: embed the sentences of the top results and mark the one
+// closest to the query, so it can be highlighted more strongly than the rest
+async function focusSentences(results: SearchResult[], queryEmbedding: number[], locale?: string): Promise<SearchResult[]> {
+  const candidates = results.slice(0, FOCUS_RESULTS)
+    .map((result) => ({ result, sentences: getFocusCandidates(result.chunk, locale) }))
+    .filter(({ sentences }) => sentences.length > 1);
+  if (candidates.length === 0) return results;
+
+  try {
+    const texts = candidates.flatMap(({ result, sentences }) => sentences.map(({ start, end }) => result.chunk.text.slice(start, end)));
+    const response = await sendToOffscreen('GENERATE_EMBEDDINGS', { texts }) as { embeddings: (number[] | null)[] };
+
+    const focus = new Map<SearchResult, TextSpan>();
+    let next = 0;
+    for (const { result, sentences } of candidates) {
+      let bestScore = -Infinity;
+      for (const sentence of sentences) {
+        const embedding = response.embeddings[next++];
+        const score = embedding ? cosineSimilarity(queryEmbedding, embedding) : -Infinity;
+        if (score > bestScore) {
+          bestScore = score;
+          focus.set(result, sentence);
+        }
+      }
+    }
+
+    return results.map((result) => {
+      const span = focus.get(result);
+      return span ? { ...result, focus: { start: span.start, end: span.end } } : result;
+    });
+  } catch (error) {
+    // Results still highlight in full without a focus sentence
+    console.warn('[SemanticFind] Sentence scoring failed:', error);
+    return results;
+  }
+}
+
+// Sentences of a prose chunk worth scoring; code, table rows and labels are
+// highlighted whole
+function getFocusCandidates(chunk: TextChunk, locale?: string): TextSpan[] {
+  if (chunk.blockType === 'code' || chunk.blockType === 'table-row' || chunk.blockType === 'accessible') {
+    return [];
+  }
+  return segmentSentences(chunk.text, locale).filter(({ start, end }) => end - start >= MIN_FOCUS_SENTENCE_LENGTH);
+}
+
+async function handleCountTokens(texts: string[]): Promise<CountTokensResponse> {
+  try {
+    const response = await sendToOffscreen('COUNT_TOKENS', { texts }) as { counts: number[] | null; maxTokens: number };
+
+    if (!response.counts) {
+      return { success: false, error: 'Tokenizer not available' };
+    }
+    return { success: true, counts: response.counts, maxTokens: response.maxTokens };
+  } catch (error) {
+    console.error('[SemanticFind] Token count error:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+async function handleCollectFrameChunks(tabId: number | undefined, frameId?: number): Promise<CollectFrameChunksResponse> {
+  if (tabId === undefined) {
+    return { success: false, error: 'No tab' };
+  }
+
+  try {
+    const frames = frameId === undefined ? await chrome.webNavigation.getAllFrames({ tabId }) || [] : [{ frameId }];
+    const subframes = frames.filter((frame) => frame.frameId !== 0);
+
+    const responses = await Promise.all(subframes.map(async ({ frameId }) => {
+      try {
+        const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_FRAME_CHUNKS' }, { frameId }) as GetFrameChunksResponse;
+        return { frameId, chunks: response?.chunks || [] };
+      } catch {
+        // No content script in this frame (e.g. a restricted or unloaded document)
+        return { frameId, chunks: [] };
+      }
+    }));
+
+    // Chunk IDs are only unique within a frame, so namespace them by frame
+    const chunks = responses.flatMap(({ frameId, chunks: frameChunks }) =>
+      frameChunks.map((chunk) => ({ ...chunk, id: `frame-${frameId}-${chunk.id}`, frameId }))
+    );
+    return { success: true, chunks };
+  } catch (error) {
+    console.error('[SemanticFind] Error collecting frame chunks:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+async function handleFrameCommand(tabId: number | undefined, command: FrameCommand, frameId?: number): Promise<{ success: boolean }> {
+  if (tabId === undefined) {
+    return { success: false };
+  }
+
+  try {
+    const message = { type: 'FRAME_COMMAND', command };
+    if (frameId === undefined) {
+      await chrome.tabs.sendMessage(tabId, message);
+    } else {
+      await chrome.tabs.sendMessage(tabId, message, { frameId });
+    }
+    return { success: true };
+  } catch {
+    return { success: false };
+  }
+}
+
+// Let the top frame know a subframe has new content to collect
+async function handleFrameChanged(tabId: number | undefined, frameId: number | undefined): Promise<{ success: boolean }> {
+  if (tabId === undefined || frameId === undefined || frameId === 0) {
+    return { success: false };
+  }
+
+  try {
+    await chrome.tabs.sendMessage(tabId, { type: 'FRAME_CHANGED', frameId }, { frameId: 0 });
+    return { success: true };
+  } catch {
+    return { success: false };
+  }
+}
+
 async function handleGetModelStatus(): Promise<GetModelStatusResponse & { statusText?: string }> {
   try {
     const response = await sendToOffscreen('GET_STATUS') as { status: string; progress: number; statusText: string };
@@ -220,10 +455,21 @@ async function handleUpdateSettings(updates: Partial<Settings>): Promise<{ succe
   }
 }
 
-async function handleGenerateSummary(query: string, topResults: { chunk: TextChunk; score: number }[]): Promise<GenerateSummaryResponse> {
+async function handleSetSiteSearchMode(origin: string, mode: SiteSearchMode): Promise<{ success: boolean }> {
+  try {
+    const current = await getSettings();
+    const siteSearchModes = { ...current.siteSearchModes, [origin]: mode };
+    await chrome.storage.local.set({ settings: { ...current, siteSearchModes } });
+    return { success: true };
+  } catch {
+    return { success: false };
+  }
+}
+
+async function handleGenerateSummary(query: string, topResults: { chunk: TextChunk; score: number }[], locale?: string): Promise<GenerateSummaryResponse> {
   try {
     const results = topResults.map((r) => ({ text: r.chunk.text, score: r.score }));
-    const response = await sendToOffscreen('GENERATE_SUMMARY', { query, topResults: results }) as { success: boolean; summary?: string };
+    const response = await sendToOffscreen('GENERATE_SUMMARY', { query, topResults: results, locale }) as { success: boolean; summary?: string };
 
     if (response.success && response.summary) {
       return { success: true, summary: response.summary };
@@ -260,7 +506,8 @@ async function handleGetLLMStatus(): Promise<GetLLMStatusResponse> {
 async function getSettings(): Promise<Settings> {
   try {
     const result = await chrome.storage.local.get('settings');
-    return (result.settings as Settings) || DEFAULT_SETTINGS;
+    // Fill in settings added after the stored copy was written
+    return { ...DEFAULT_SETTINGS, ...(result.settings as Partial<Settings> | undefined) };
   } catch {
     return DEFAULT_SETTINGS;
   }
@@ -0,0 +1,77 @@
+import { walkComposedTree } from './dom-walker';
+
+// Text that assistive technology reads but that isn't in the page's text
+// nodes: image alt text, aria-label, title tooltips, figure captions and
+// form labels
+
+// Elements whose own text is read here instead of as ordinary page text
+export const ACCESSIBLE_TEXT_CONTAINERS = 'figcaption, label';
+
+const SOURCE_SELECTOR = 'img[alt], [aria-label], [title], figcaption, label';
+
+export interface AccessibleText {
+  text: string;
+  // Element the text was read from, for ordering among the page's text nodes
+  source: Element;
+  // Element to scroll to and outline, since attribute text can't be highlighted
+  owner: Element;
+}
+
+// Collect accessible text under root (and on it, if includeRoot), in
+// rendering order, open shadow roots included
+export function collectAccessibleText(
+  root: Element,
+  accept: (element: Element) => boolean,
+  includeRoot: boolean = false
+): AccessibleText[] {
+  const items: AccessibleText[] = [];
+  const elements: Element[] = [];
+  walkComposedTree(root, (node) => {
+    if (!(node instanceof Element)) return false;
+    if ((includeRoot || node !== root) && node.matches(SOURCE_SELECTOR)) elements.push(node);
+  });
+
+  for (const element of elements) {
+    if (!accept(element)) continue;
+
+    // A captioned image's alt text is read together with its caption
+    if (element.tagName === 'IMG' && element.closest('figure')?.querySelector('figcaption')) continue;
+
+    if (element.tagName === 'FIGCAPTION') {
+      const figure = element.closest('figure');
+      const image = figure?.querySelector('img[alt]');
+      const text = joinParts([image?.getAttribute('alt'), normalize(element.textContent)]);
+      if (text) items.push({ text, source: element, owner: figure || element });
+      continue;
+    }
+
+    if (element instanceof HTMLLabelElement) {
+      const text = normalize(element.textContent);
+      if (text) items.push({ text, source: element, owner: element.control || element });
+      continue;
+    }
+
+    // Attribute text that repeats the element's visible text is searchable already
+    const ownText = normalize(element.textContent).toLowerCase();
+    const parts = [
+      element.tagName === 'IMG' ? element.getAttribute('alt') : null,
+      element.getAttribute('aria-label'),
+      element.getAttribute('title'),
+    ].filter((part) => normalize(part).toLowerCase() !== ownText);
+
+    const text = joinParts(parts);
+    if (text) items.push({ text, source: element, owner: element });
+  }
+
+  return items;
+}
+
+// Join distinct, non-empty parts
+function joinParts(parts: (string | null | undefined)[]): string {
+  const unique = new Set(parts.map(normalize).filter(Boolean));
+  return Array.from(unique).join(' — ');
+}
+
+function normalize(text: string | null | undefined): string {
+  return text?.replace(/\s+/g, ' ').trim() || '';
+}
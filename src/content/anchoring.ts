@@ -0,0 +1,188 @@
+import { collectTextNodes, getComposedParent } from './dom-walker';
+
+// Anchors describe a highlight by its text rather than by the DOM nodes that
+// hold it, in the style of W3C Web Annotation selectors: the quoted text with
+// some context either side, and its position in the page's text. When the
+// page re-renders those nodes (hydration, framework re-renders), the anchor
+// finds the same text in the new ones.
+
+// Characters of context kept either side of the quoted text
+const CONTEXT_LENGTH = 32;
+
+// Text that isn't rendered, or belongs to our own UI
+const UNANCHORED_PARENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+const OWN_UI = '#semantic-find-overlay, #semantic-find-minimap';
+
+export interface TextQuoteSelector {
+  type: 'TextQuoteSelector';
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface TextPositionSelector {
+  type: 'TextPositionSelector';
+  start: number;
+  end: number;
+}
+
+export interface TextAnchor {
+  quote: TextQuoteSelector;
+  position: TextPositionSelector;
+}
+
+// The text of a subtree's text nodes run together, with where each node starts
+interface AnchorText {
+  text: string;
+  nodes: Text[];
+  starts: number[];
+}
+
+function getAnchorText(root: Node): AnchorText {
+  const nodes = collectTextNodes(root, (node) => {
+    const parent = getComposedParent(node);
+    return !!parent && !UNANCHORED_PARENTS.has(parent.tagName);
+  }, (element) => element.matches(OWN_UI));
+
+  const starts: number[] = [];
+  let text = '';
+  for (const node of nodes) {
+    starts.push(text.length);
+    text += node.data;
+  }
+  return { text, nodes, starts };
+}
+
+// Anchors for ranges, or null for ranges outside the root's text
+export function describeRanges(ranges: Range[], root: Node = document.body): (TextAnchor | null)[] {
+  if (ranges.length === 0) return [];
+  const anchorText = getAnchorText(root);
+  const indexes = new Map(anchorText.nodes.map((node, index) => [node, index]));
+
+  const toOffset = (container: Node, offset: number, side: 'start' | 'end'): number | null => {
+    const point = toTextPoint(container, offset, side);
+    const index = point ? indexes.get(point.node) : undefined;
+    return point && index !== undefined ? anchorText.starts[index] + point.offset : null;
+  };
+
+  return ranges.map((range) => {
+    const start = toOffset(range.startContainer, range.startOffset, 'start');
+    const end = toOffset(range.endContainer, range.endOffset, 'end');
+    if (start === null || end === null || end <= start) return null;
+
+    const { text } = anchorText;
+    return {
+      quote: {
+        type: 'TextQuoteSelector',
+        exact: text.slice(start, end),
+        prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        suffix: text.slice(end, end + CONTEXT_LENGTH),
+      },
+      position: { type: 'TextPositionSelector', start, end },
+    };
+  });
+}
+
+// Ranges over the text anchors describe, or null for text no longer on the page.
+// Text still at its old position is taken as is; otherwise the occurrence
+// whose surroundings best match the anchor's context wins, nearest first
+export function resolveAnchors(anchors: TextAnchor[], root: Node = document.body): (Range | null)[] {
+  if (anchors.length === 0) return [];
+  const anchorText = getAnchorText(root);
+  const { text } = anchorText;
+
+  return anchors.map(({ quote, position }) => {
+    const { exact, prefix, suffix } = quote;
+    if (!exact) return null;
+    if (text.slice(position.start, position.end) === exact) {
+      return createRange(anchorText, position.start, position.end);
+    }
+
+    let best = -1;
+    let bestScore = -1;
+    let bestDistance = Infinity;
+    for (let index = text.indexOf(exact); index !== -1; index = text.indexOf(exact, index + 1)) {
+      const score = commonSuffixLength(text.slice(Math.max(0, index - prefix.length), index), prefix)
+        + commonPrefixLength(text.slice(index + exact.length, index + exact.length + suffix.length), suffix);
+      const distance = Math.abs(index - position.start);
+      if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+        best = index;
+        bestScore = score;
+        bestDistance = distance;
+      }
+    }
+
+    return best === -1 ? null : createRange(anchorText, best, best + exact.length);
+  });
+}
+
+// The text node and offset a range boundary falls on. Boundaries between
+// elements (e.g. around a fallback highlight span) move into the text next to them
+function toTextPoint(container: Node, offset: number, side: 'start' | 'end'): { node: Text; offset: number } | null {
+  if (container instanceof Text) return { node: container, offset };
+
+  if (side === 'start') {
+    const next = container.childNodes[offset];
+    const node = next && (next instanceof Text ? next : firstTextNode(next));
+    return node ? { node, offset: 0 } : null;
+  }
+
+  const previous = container.childNodes[offset - 1];
+  const node = previous && (previous instanceof Text ? previous : lastTextNode(previous));
+  return node ? { node, offset: node.length } : null;
+}
+
+function firstTextNode(node: Node): Text | null {
+  const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+  return walker.nextNode() as Text | null;
+}
+
+function lastTextNode(node: Node): Text | null {
+  const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+  let last: Text | null = null;
+  while (walker.nextNode()) last = walker.currentNode as Text;
+  return last;
+}
+
+function createRange({ nodes, starts }: AnchorText, start: number, end: number): Range | null {
+  const from = findNode(starts, start, 'start');
+  const to = findNode(starts, end, 'end');
+  if (from === -1 || to === -1) return null;
+
+  const range = document.createRange();
+  range.setStart(nodes[from], start - starts[from]);
+  range.setEnd(nodes[to], end - starts[to]);
+  return range;
+}
+
+// Index of the node holding the character at offset (for a start) or the one
+// just before it (for an end)
+function findNode(starts: number[], offset: number, side: 'start' | 'end'): number {
+  let low = 0;
+  let high = starts.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (side === 'start' ? starts[mid] <= offset : starts[mid] < offset) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
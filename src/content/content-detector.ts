@@ -0,0 +1,125 @@
+// Finds the element holding a page's main content by scoring containers,
+// in the spirit of Readability: text-bearing blocks vote for their ancestors,
+// weighted by tag and class semantics and discounted by link density
+
+import { isHidden, isRevealable } from './reveal';
+
+// Blocks whose text votes for the containers above them
+const PARAGRAPH_SELECTOR = 'p, pre, td, blockquote, li, dd';
+
+// Paragraphs shorter than this are too small to say anything about a container
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// How far up a paragraph's score reaches, and its share at each level
+const ANCESTOR_SHARES = [1, 1 / 2, 1 / 6];
+
+// Starting score of a container by tag
+const TAG_WEIGHTS: Record<string, number> = {
+  MAIN: 25, ARTICLE: 25,
+  DIV: 5, SECTION: 5,
+  PRE: 3, TD: 3, BLOCKQUOTE: 3,
+  UL: -3, OL: -3, DL: -3, DD: -3, LI: -3, FORM: -3,
+  TH: -5, H1: -5, H2: -5, H3: -5, H4: -5, H5: -5, H6: -5,
+  NAV: -25, ASIDE: -25, HEADER: -25, FOOTER: -25,
+};
+
+const POSITIVE_CLASS = /article|body|content|entry|main|page|post|text|blog|story/i;
+const NEGATIVE_CLASS = /comment|footer|sidebar|widget|banner|promo|sponsor|share|social|related|nav|menu|breadcrumb|advert|masthead/i;
+const CLASS_WEIGHT = 25;
+
+export interface ContentDetection {
+  // Best-scoring container, or document.body when nothing scored
+  root: Element;
+  score: number;
+  // 0-1: how clearly the root beats unrelated candidates, blended with the
+  // share of the page's text it holds
+  confidence: number;
+}
+
+// Score the page's containers and pick the one most likely to hold its content
+export function detectMainContent(): ContentDetection {
+  const body = document.body;
+  const scores = new Map<Element, number>();
+
+  for (const paragraph of Array.from(body.querySelectorAll(PARAGRAPH_SELECTOR))) {
+    const text = normalizedText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    // Text the reader can never see says nothing about where the content is
+    if (isHidden(paragraph) && !isRevealable(paragraph)) continue;
+
+    // One point per paragraph, plus commas and length as signs of real prose
+    const contentScore = 1 + (text.split(/[,，、]/).length - 1) + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parentElement;
+    for (let level = 0; ancestor && level < ANCESTOR_SHARES.length; level++) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, getBaseScore(ancestor));
+      }
+      scores.set(ancestor, scores.get(ancestor)! + contentScore * ANCESTOR_SHARES[level]);
+      ancestor = ancestor.parentElement;
+    }
+  }
+
+  // Containers made mostly of links are navigation, whatever they score
+  const candidates = Array.from(scores, ([element, score]) => ({
+    element,
+    score: score * (1 - getLinkDensity(element)),
+  }));
+
+  let top: { element: Element; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (!top || candidate.score > top.score) top = candidate;
+  }
+
+  if (!top || top.score <= 0) {
+    return { root: body, score: 0, confidence: 0 };
+  }
+
+  // The runner-up is the best candidate that neither contains nor sits inside the winner
+  let runnerUp = 0;
+  for (const { element, score } of candidates) {
+    if (element.contains(top.element) || top.element.contains(element)) continue;
+    runnerUp = Math.max(runnerUp, score);
+  }
+
+  const bodyLength = normalizedText(body).length;
+  const textShare = bodyLength > 0 ? normalizedText(top.element).length / bodyLength : 0;
+  const margin = 1 - Math.max(0, runnerUp) / top.score;
+  const confidence = Math.round(Math.min(1, Math.max(0, (margin + textShare) / 2)) * 100) / 100;
+
+  return { root: top.element, score: Math.round(top.score * 10) / 10, confidence };
+}
+
+// Share of an element's text that sits inside links or buttons
+export function getLinkDensity(element: Element): number {
+  const textLength = normalizedText(element).length;
+  if (textLength === 0) return 0;
+
+  let linkLength = 0;
+  for (const link of Array.from(element.querySelectorAll('a, button'))) {
+    // Nested interactive elements are counted once, through the outer one
+    const outer = link.parentElement?.closest('a, button');
+    if (outer && element.contains(outer)) continue;
+    linkLength += normalizedText(link).length;
+  }
+
+  return Math.min(1, linkLength / textLength);
+}
+
+// Starting score of a container from its tag, role and class names
+function getBaseScore(element: Element): number {
+  let score = TAG_WEIGHTS[element.tagName] || 0;
+
+  if (element.getAttribute('role') === 'main') score += CLASS_WEIGHT;
+
+  const classAndId = `${element.className} ${element.id}`;
+  if (POSITIVE_CLASS.test(classAndId)) score += CLASS_WEIGHT;
+  if (NEGATIVE_CLASS.test(classAndId)) score -= CLASS_WEIGHT;
+
+  return score;
+}
+
+function normalizedText(element: Element): string {
+  return element.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
@@ -1,150 +1,649 @@
-import type { TextChunk, SearchResult, Settings } from '../shared/types';
-import type { GetEmbeddingsResponse, SearchQueryResponse, GetSettingsResponse, GenerateSummaryResponse } from '../shared/messages';
-import { extractPageText, chunkText } from './text-chunker';
-import { highlightText, clearAllHighlights, setActiveHighlight } from './highlighter';
-import { createOverlay, show, hide, toggle, updateResults, updateSummary, setStatus, setSettings, setOnSearch, setOnNavigate, setOnClose, setOnRequestSummary } from './overlay';
+import type { TextChunk, SearchResult, Settings, SiteSearchMode } from '../shared/types';
+import { DEFAULT_SEARCH_MODE } from '../shared/types';
+import type { GetEmbeddingsResponse, SearchQueryResponse, GetSettingsResponse, GenerateSummaryResponse, CollectFrameChunksResponse, FrameCommand } from '../shared/messages';
+import { extractPageText, getPageLocale, findContentRoot, updateTextNodes, type ExtractOptions, type TextNode } from './text-chunker';
+import { chunkWithSettings } from './token-counter';
+import { batchHighlights, highlightText, highlightElement, highlightRanges, outlineElement, clearAllHighlights, setActiveHighlight, clearActiveHighlight, hasHighlight, setIncludeHidden, setHighlightPalette, setHighlightScore, highlightFocusText, highlightFocusRanges, repairHighlights, pinHighlights, setPinVisible, unpinHighlights } from './highlighter';
+import { createOverlay, show, hide, toggle, isOverlayVisible, updateResults, refreshResults, selectResult, updateSummary, setStatus, setSettings, setOnSearch, setOnNavigate, setOnClose, setOnClear, setOnRequestSummary, setOnPin, setOnTogglePin, setOnUnpin, updatePins, setSearchMode, setOnModeChange } from './overlay';
+import { startLiveIndexing, stopLiveIndexing, ignoreMutations } from './live-indexer';
+import { getRouteKey } from './route';
+import { showMinimap, hideMinimap, setMinimapActive, setOnMinimapSelect } from './minimap';
+import { mapToRanges, findBlock } from './text-ranges';
+import { createPin, type PinnedQuery } from './pins';
+import { QueryParseError } from '../shared/query-parser';
+import { findLiteralMatches } from './literal-search';
+import { getCodeTextStart } from './structure';
+import { findRowCell } from './table-extractor';
 
 console.log('[SemanticFind] Content script loaded on:', window.location.href);
 
+// The overlay lives in the top frame; subframes only index and highlight their own document
+const isTopFrame = window === window.top;
+
 // State
 let pageChunks: TextChunk[] = [];
 let isIndexed = false;
+// Only semantic and hybrid searches need embeddings, so they're made on their first one
+let isEmbedded = false;
 let currentResults: SearchResult[] = [];
+let currentQuery = '';
 let settings: Settings | null = null;
+let pinnedQueries: PinnedQuery[] = [];
+let searchMode: SiteSearchMode = DEFAULT_SEARCH_MODE;
+
+// Route the index was built for; a single-page app can move on without a reload
+let indexedRoute = '';
+// Route the page was last on, which pinned queries belong to whether or not it was indexed
+let pageRoute = getRouteKey(window.location.href);
+
+// Text nodes behind this frame's chunks, kept so page changes can be re-indexed incrementally
+let pageTextNodes: TextNode[] = [];
+let contentRoot: Element | null = null;
+// Frame elements in this document, to tell when frames are added or removed
+let pageFrames: Element[] = [];
+let pageUpdate: Promise<void> = Promise.resolve();
 
 // Initialize
 async function init(): Promise<void> {
   // Load settings
   const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' }) as GetSettingsResponse;
   settings = response.settings;
+  setIncludeHidden(settings.includeHiddenContent);
+  setHighlightPalette(settings.highlightPalette);
+
+  // A frame added or navigated after the page was indexed has chunks to collect
+  if (!isTopFrame) {
+    reportFrameChange();
+    return;
+  }
 
   // Create overlay
   createOverlay();
   setSettings(settings);
+  searchMode = settings.siteSearchModes[window.location.origin] ?? DEFAULT_SEARCH_MODE;
+  setSearchMode(searchMode);
 
   // Set up callbacks
   setOnSearch(handleSearch);
   setOnNavigate(handleNavigate);
   setOnClose(handleClose);
+  setOnClear(handleClear);
   setOnRequestSummary(handleRequestSummary);
+  setOnMinimapSelect(selectResult);
+  setOnPin(handlePin);
+  setOnTogglePin(handleTogglePin);
+  setOnUnpin(handleUnpin);
+  setOnModeChange(handleModeChange);
+
+  // Back/forward and hash routes; pushState and replaceState are reported by the service worker
+  window.addEventListener('popstate', handleRouteChange);
+  window.addEventListener('hashchange', handleRouteChange);
+}
+
+// Extract and chunk the text of this frame's document
+async function extractChunks(): Promise<TextChunk[]> {
+  const rule = settings?.siteRules?.[window.location.origin];
+  contentRoot = findContentRoot(rule);
+  pageTextNodes = extractPageText(rule, { ...getExtractOptions(), contentRoot });
+  return chunkTextNodes(pageTextNodes);
+}
+
+function getExtractOptions(): ExtractOptions {
+  return {
+    accessibleText: settings?.indexAccessibleText,
+    includeHidden: settings?.includeHiddenContent,
+  };
+}
+
+// Chunk extracted text nodes according to the settings
+function chunkTextNodes(textNodes: TextNode[]): Promise<TextChunk[]> {
+  return chunkWithSettings(textNodes, settings, getPageLocale());
 }
 
-// Index page content
-async function indexPage(): Promise<boolean> {
-  if (isIndexed && pageChunks.length > 0) {
+function getFrameElements(): Element[] {
+  return Array.from(document.querySelectorAll('iframe, frame'));
+}
+
+// Collect chunks from one subframe of the tab, or from all of them if no
+// frameId is given; null if that failed
+async function collectFrameChunks(frameId?: number): Promise<TextChunk[] | null> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'COLLECT_FRAME_CHUNKS', frameId }) as CollectFrameChunksResponse;
+    if (!response.success || !response.chunks) {
+      console.warn('[SemanticFind] Failed to collect frame chunks:', response.error);
+      return null;
+    }
+    return response.chunks;
+  } catch (error) {
+    console.warn('[SemanticFind] Failed to collect frame chunks:', error);
+    return null;
+  }
+}
+
+// Index page content: extract its chunks, and embed them when the search
+// needs embeddings (exact and regex searches don't)
+async function indexPage(embed: boolean): Promise<boolean> {
+  if (isIndexed && (isEmbedded || !embed)) {
     return true;
   }
 
   setStatus('Indexing...');
 
   try {
-    // Extract and chunk text
-    const textNodes = extractPageText();
-    const chunkSize = settings?.chunkSize || 200;
-    pageChunks = chunkText(textNodes, chunkSize);
+    if (!isIndexed) {
+      // Extract and chunk text from this document and all its frames
+      const route = getRouteKey(window.location.href);
+      pageFrames = getFrameElements();
+      const [ownChunks, collected] = await Promise.all([extractChunks(), collectFrameChunks()]);
+      const frameChunks = collected ?? [];
+      pageChunks = [...ownChunks, ...frameChunks];
+
+      if (pageChunks.length === 0) {
+        setStatus('No text found');
+        return false;
+      }
+
+      console.log('[SemanticFind] Extracted', ownChunks.length, 'chunks,', frameChunks.length, 'from frames');
+      isIndexed = true;
+      indexedRoute = route;
+
+      // Keep the index in step with the page while the overlay is open
+      startLiveIndexing((changed) => {
+        pageUpdate = pageUpdate.then(() => handlePageChange(changed));
+      });
+    }
 
-    if (pageChunks.length === 0) {
-      setStatus('No text found');
+    if (embed && !(await embedPage())) {
       return false;
     }
 
-    console.log('[SemanticFind] Extracted', pageChunks.length, 'chunks');
+    setStatus('');
+    return true;
+  } catch (error) {
+    console.error('[SemanticFind] Error indexing page:', error);
+    setStatus('Error');
+    return false;
+  }
+}
+
+// Get embeddings for the page's chunks from the service worker
+async function embedPage(): Promise<boolean> {
+  const route = indexedRoute;
 
-    // Get embeddings from service worker
+  while (!isEmbedded) {
+    const chunks = pageChunks;
     const response = await chrome.runtime.sendMessage({
       type: 'GET_EMBEDDINGS',
-      chunks: pageChunks,
-      url: window.location.href,
+      chunks,
+      url: route,
     }) as GetEmbeddingsResponse;
 
+    // The app moved to another route meanwhile, and its search indexes that one
+    if (!isIndexed || indexedRoute !== route) {
+      return false;
+    }
+
     if (!response.success || !response.chunks) {
       setStatus('Indexing failed');
       console.error('[SemanticFind] Failed to get embeddings:', response.error);
       return false;
     }
 
-    pageChunks = response.chunks;
-    isIndexed = true;
-    setStatus('');
-    console.log('[SemanticFind] Page indexed successfully');
-    return true;
-  } catch (error) {
-    console.error('[SemanticFind] Error indexing page:', error);
-    setStatus('Error');
-    return false;
+    // A page change meanwhile replaced the chunks; embed those too, mostly from the cache
+    if (pageChunks === chunks) {
+      pageChunks = response.chunks;
+      isEmbedded = true;
+    }
   }
+
+  console.log('[SemanticFind] Page indexed successfully');
+  return true;
 }
 
 // Handle search query
 async function handleSearch(query: string): Promise<void> {
   console.log('[SemanticFind] Searching for:', query);
+  currentQuery = query;
 
   // Index page if not already done
-  if (!isIndexed) {
-    const indexed = await indexPage();
-    if (!indexed) {
-      updateResults([]);
-      return;
-    }
+  const indexed = await indexPage(needsEmbeddings(searchMode));
+  if (!indexed) {
+    updateResults([]);
+    return;
   }
 
   setStatus('Searching...');
 
   try {
-    // Send search query to service worker
-    console.log('[SemanticFind] Sending search query, chunks have embeddings:', pageChunks.filter(c => c.embedding).length);
-    const response = await chrome.runtime.sendMessage({
-      type: 'SEARCH_QUERY',
-      query,
-      chunks: pageChunks,
-    }) as SearchQueryResponse;
-
-    console.log('[SemanticFind] Search response:', response);
-
-    if (!response.success || !response.results) {
+    const results = await runSearch(query);
+    // The box was cleared or a newer search started meanwhile
+    if (query !== currentQuery) return;
+    if (!results) {
       setStatus('Search failed');
-      console.error('[SemanticFind] Search failed:', response.error);
       updateResults([]);
       return;
     }
 
-    currentResults = response.results;
+    currentResults = results;
     console.log('[SemanticFind] Found', currentResults.length, 'results');
     if (currentResults.length > 0) {
       console.log('[SemanticFind] Top result:', currentResults[0].score, currentResults[0].chunk.text.substring(0, 100));
     }
 
-    // Clear previous highlights
-    clearAllHighlights();
-
-    // Highlight matching text
-    let highlightedCount = 0;
-    for (const result of currentResults) {
-      const success = highlightText(result.chunk.id, result.chunk.text);
-      if (success) highlightedCount++;
-    }
-    console.log('[SemanticFind] Highlighted', highlightedCount, 'of', currentResults.length, 'results');
+    highlightResults(currentResults);
 
     setStatus('');
     updateResults(currentResults);
   } catch (error) {
+    if (error instanceof QueryParseError) {
+      updateResults([]);
+      setStatus(error.message);
+      return;
+    }
     console.error('[SemanticFind] Search error:', error);
     setStatus('Error');
     updateResults([]);
   }
 }
 
+// Exact and regex searches match the chunks' text alone
+function needsEmbeddings({ mode }: SiteSearchMode): boolean {
+  return mode === 'semantic' || mode === 'hybrid';
+}
+
+// Results for a query in the current search mode. Exact and regex searches
+// run here over the extracted text; semantic and hybrid ones go to the service worker.
+// Throws a QueryParseError for a query with bad syntax
+async function runSearch(query: string): Promise<SearchResult[] | null> {
+  const { mode } = searchMode;
+  if (mode === 'exact' || mode === 'regex') {
+    return findLiteralMatches(pageChunks, query, searchMode, { textNodes: pageTextNodes, contentFilter: settings?.contentFilter });
+  }
+  return querySearch(query, mode);
+}
+
+// Ask the service worker for the chunks that match a query
+async function querySearch(query: string, mode: 'semantic' | 'hybrid'): Promise<SearchResult[] | null> {
+  console.log('[SemanticFind] Sending search query, chunks have embeddings:', pageChunks.filter(c => c.embedding).length);
+  const response = await chrome.runtime.sendMessage({
+    type: 'SEARCH_QUERY',
+    query,
+    chunks: pageChunks,
+    locale: getPageLocale(),
+    mode,
+  }) as SearchQueryResponse;
+
+  console.log('[SemanticFind] Search response:', response);
+
+  if (response.queryError) {
+    throw new QueryParseError(response.queryError);
+  }
+  if (!response.success || !response.results) {
+    console.error('[SemanticFind] Search failed:', response.error);
+    return null;
+  }
+  return response.results;
+}
+
+// Replace all highlights with the given results
+function highlightResults(results: SearchResult[]): void {
+  ignoreMutations(() => {
+    // Clear previous highlights
+    clearAllHighlights();
+    sendFrameCommand({ action: 'clear' });
+
+    // Highlight matching text; results from subframes are highlighted by their own frame
+    let highlightedCount = 0;
+    const frameResults = new Map<number, SearchResult[]>();
+    batchHighlights(() => {
+      for (const result of results) {
+        const { frameId } = result.chunk;
+        if (frameId !== undefined) {
+          if (!frameResults.has(frameId)) frameResults.set(frameId, []);
+          frameResults.get(frameId)!.push(result);
+          continue;
+        }
+        const success = highlightResult(result);
+        if (success) highlightedCount++;
+      }
+    });
+    for (const [frameId, resultsForFrame] of frameResults) {
+      sendFrameCommand({ action: 'highlight', results: resultsForFrame }, frameId);
+    }
+    console.log('[SemanticFind] Highlighted', highlightedCount, 'of', results.length, 'results in the top frame');
+
+    showMinimap(results, settings?.highlightPalette ?? 'yellow');
+  });
+}
+
+// Re-index the subtrees of this document that changed
+async function handlePageChange(changed: Element[]): Promise<void> {
+  if (!isIndexed || !contentRoot) return;
+
+  // A re-render can replace highlighted text with identical new nodes, which
+  // leaves nothing to re-index but drops the highlights
+  if (ignoreMutations(repairHighlights) > 0) {
+    showMinimap(currentResults, settings?.highlightPalette ?? 'yellow');
+  }
+
+  try {
+    const rule = settings?.siteRules?.[window.location.origin];
+    if (contentRoot.isConnected) {
+      pageTextNodes = updateTextNodes(pageTextNodes, changed, rule, { ...getExtractOptions(), contentRoot });
+    } else {
+      contentRoot = findContentRoot(rule);
+      pageTextNodes = extractPageText(rule, { ...getExtractOptions(), contentRoot });
+    }
+
+    // Subframes report their own changes, so they're only all collected
+    // afresh when frames were added or removed here; if that fails the ones
+    // already indexed are kept
+    const frames = getFrameElements();
+    const framesChanged = frames.length !== pageFrames.length || frames.some((frame, i) => frame !== pageFrames[i]);
+    pageFrames = frames;
+
+    const [ownChunks, collected] = await Promise.all([
+      chunkTextNodes(pageTextNodes),
+      framesChanged ? collectFrameChunks() : null,
+    ]);
+    const frameChunks = collected ?? pageChunks.filter((chunk) => chunk.frameId !== undefined);
+    await updatePageChunks([...ownChunks, ...frameChunks]);
+  } catch (error) {
+    console.error('[SemanticFind] Error re-indexing page changes:', error);
+  }
+}
+
+// Re-collect the chunks of a subframe that reported a change, in place of the
+// ones it had
+async function handleFrameChange(frameId: number): Promise<void> {
+  if (!isIndexed) return;
+
+  try {
+    const collected = await collectFrameChunks(frameId);
+    if (!collected) return;
+
+    const others = pageChunks.filter((chunk) => chunk.frameId !== frameId);
+    const at = pageChunks.findIndex((chunk) => chunk.frameId === frameId);
+    others.splice(at === -1 ? others.length : at, 0, ...collected);
+    await updatePageChunks(others);
+  } catch (error) {
+    console.error('[SemanticFind] Error re-indexing frame changes:', error);
+  }
+}
+
+// Replace the page's chunks, embedding only new or edited ones, and refresh
+// the open search so its results follow the page
+async function updatePageChunks(updated: TextChunk[]): Promise<void> {
+  // The route changed or the overlay closed meanwhile and the index was dropped
+  if (!isIndexed) return;
+
+  const known = new Map(pageChunks.map((chunk) => [chunk.id, chunk]));
+  const unchanged = updated.length === pageChunks.length
+    && updated.every((chunk) => known.get(chunk.id)?.text === chunk.text);
+  if (unchanged) return;
+
+  // Without embeddings yet there's nothing to update but the chunks
+  if (!isEmbedded) {
+    pageChunks = updated;
+    await refreshSearch();
+    return;
+  }
+
+  // Known chunks keep their embeddings, so only new or edited ones get embedded
+  const chunks = updated.map((chunk) => ({ ...chunk, embedding: known.get(chunk.id)?.embedding }));
+  const response = await chrome.runtime.sendMessage({
+    type: 'GET_EMBEDDINGS',
+    chunks,
+    url: indexedRoute,
+  }) as GetEmbeddingsResponse;
+
+  // The route changed meanwhile and the index was dropped
+  if (!isEmbedded) return;
+
+  if (!response.success || !response.chunks) {
+    console.error('[SemanticFind] Failed to update embeddings:', response.error);
+    return;
+  }
+
+  pageChunks = response.chunks;
+  console.log('[SemanticFind] Re-indexed page changes:', chunks.length, 'chunks');
+  await refreshSearch();
+}
+
+// Re-run the open query without moving away from the current match
+async function refreshSearch(): Promise<void> {
+  if (!currentQuery) return;
+
+  const results = await runSearch(currentQuery);
+  if (!results || !currentQuery) return;
+
+  currentResults = results;
+  highlightResults(results);
+  const index = refreshResults(results);
+  if (results[index]) {
+    activateResult(results[index], false);
+  }
+}
+
+// Highlight a result's chunk in this frame, emphasising its best-matching sentence
+function highlightResult(result: SearchResult): boolean {
+  const { chunk, focus } = result;
+  if (!highlightChunk(chunk)) return false;
+  setHighlightScore(chunk.id, result.score);
+  if (focus) {
+    const text = chunk.text.slice(focus.start, focus.end);
+    const ranges = findExtractedRanges(chunk.startOffset + focus.start, text);
+    if (!ranges || !highlightFocusRanges(chunk.id, ranges)) {
+      highlightFocusText(chunk.id, text);
+    }
+  }
+  return true;
+}
+
+// Ranges of extracted text starting at an offset, provided the page still
+// holds that text there
+function findExtractedRanges(startOffset: number, text: string): Range[] | null {
+  const ranges = mapToRanges(pageTextNodes, startOffset, startOffset + text.length);
+  return ranges && ranges.map(String).join(' ') === text ? ranges : null;
+}
+
+// Highlight a chunk in this frame. Table rows are highlighted whole, since
+// their text is built from the cells and headers rather than read verbatim,
+// unless the chunk is a match inside one cell's value; code is matched
+// exactly at its place in the block, since whitespace matters there;
+// accessible text lives in attributes, so its element is outlined instead.
+// Those blocks are the elements extraction read them from. Prose maps
+// straight back to the text nodes it was extracted from, and is only
+// searched for when the page has changed since
+function highlightChunk(chunk: TextChunk): boolean {
+  const block = findBlock(pageTextNodes, chunk.startOffset);
+  if (chunk.blockType === 'accessible') {
+    return block ? outlineElement(chunk.id, block.element) : false;
+  }
+  if (block && chunk.blockType === 'table-row' && block.element instanceof HTMLTableRowElement) {
+    const cell = findRowCell(block.element, block.offset);
+    if (cell && highlightElement(chunk.id, cell.cell, chunk.text, cell.offset)) return true;
+    return highlightElement(chunk.id, block.element);
+  }
+  if (block && chunk.blockType === 'code') {
+    const from = getCodeTextStart(block.element) + block.offset;
+    if (highlightElement(chunk.id, block.element, chunk.text, from)) return true;
+  }
+
+  const ranges = findExtractedRanges(chunk.startOffset, chunk.text);
+  if (ranges && highlightRanges(chunk.id, ranges)) {
+    return true;
+  }
+  return highlightText(chunk.id, chunk.text);
+}
+
 // Handle navigation between results
 function handleNavigate(index: number): void {
   if (index < 0 || index >= currentResults.length) return;
+  activateResult(currentResults[index], true);
+}
+
+function activateResult(result: SearchResult, scroll: boolean): void {
+  ignoreMutations(() => {
+    // Every frame drops its active highlight unless it owns this result
+    if (result.chunk.frameId !== undefined) {
+      clearActiveHighlight();
+    } else {
+      setActiveHighlight(result.chunk.id, scroll);
+    }
+  });
+  setMinimapActive(currentResults.indexOf(result));
+  sendFrameCommand({ action: 'activate', chunkId: result.chunk.id, scroll });
+}
 
-  const result = currentResults[index];
-  setActiveHighlight(result.chunk.id);
+// Drop the pins and index of the previous route; an open search re-indexes the new one
+function handleRouteChange(): void {
+  const route = getRouteKey(window.location.href);
+  if (route !== pageRoute) {
+    pageRoute = route;
+
+    // Pinned text belonged to the previous route
+    for (const pin of pinnedQueries) {
+      handleUnpin(pin.id);
+    }
+  }
+
+  if (!isIndexed || route === indexedRoute) return;
+  console.log('[SemanticFind] Route changed, dropping the index of', indexedRoute);
+
+  stopLiveIndexing();
+  isIndexed = false;
+  isEmbedded = false;
+  pageChunks = [];
+  pageTextNodes = [];
+  contentRoot = null;
+  currentResults = [];
+  clearAllHighlights();
+  hideMinimap();
+  sendFrameCommand({ action: 'clear' });
+  sendFrameCommand({ action: 'unwatch' });
+
+  if (currentQuery && isOverlayVisible()) {
+    handleSearch(currentQuery);
+  }
+}
+
+// Keep the current search's highlights as a pinned query, in this frame and
+// its subframes, so the next search doesn't clear them. Only the query whose
+// results are showing can be pinned
+function handlePin(query: string): boolean {
+  if (query !== currentQuery || currentResults.length === 0) return false;
+
+  const pin = createPin(query, pinnedQueries);
+  const pinned = ignoreMutations(() => pinHighlights(pin.id, pin.color));
+  const inFrames = currentResults.some((result) => result.chunk.frameId !== undefined);
+  if (!pinned && !inFrames) return false;
+  if (inFrames) sendFrameCommand({ action: 'pin', pinId: pin.id, color: pin.color });
+
+  pinnedQueries = [...pinnedQueries, pin];
+  currentQuery = '';
+  currentResults = [];
+  hideMinimap();
+  updatePins(pinnedQueries);
+  return true;
+}
+
+function handleTogglePin(pinId: string): void {
+  pinnedQueries = pinnedQueries.map((pin) => pin.id === pinId ? { ...pin, visible: !pin.visible } : pin);
+  const pin = pinnedQueries.find((p) => p.id === pinId);
+  if (!pin) return;
+
+  ignoreMutations(() => setPinVisible(pinId, pin.visible));
+  sendFrameCommand({ action: 'showPin', pinId, visible: pin.visible });
+  updatePins(pinnedQueries);
+}
+
+function handleUnpin(pinId: string): void {
+  pinnedQueries = pinnedQueries.filter((pin) => pin.id !== pinId);
+  ignoreMutations(() => unpinHighlights(pinId));
+  sendFrameCommand({ action: 'unpin', pinId });
+  updatePins(pinnedQueries);
+}
+
+// Remember the search mode picked on this site; the overlay runs the open query again
+function handleModeChange(mode: SiteSearchMode): void {
+  searchMode = mode;
+  chrome.runtime.sendMessage({ type: 'SET_SITE_SEARCH_MODE', origin: window.location.origin, mode }).catch((error) => {
+    console.warn('[SemanticFind] Failed to save search mode:', error);
+  });
+}
+
+// The search box was emptied; drop the query so page changes don't bring its
+// highlights back. Pinned queries stay highlighted
+function handleClear(): void {
+  currentQuery = '';
+  currentResults = [];
+  ignoreMutations(clearAllHighlights);
+  hideMinimap();
+  sendFrameCommand({ action: 'clear' });
 }
 
-// Handle overlay close
+// Handle overlay close; pinned queries stay highlighted until unpinned
 function handleClose(): void {
+  currentQuery = '';
   clearAllHighlights();
+  hideMinimap();
+  sendFrameCommand({ action: 'clear' });
+
+  // Changes made while closed aren't tracked, so index afresh next time
+  stopLiveIndexing();
+  sendFrameCommand({ action: 'unwatch' });
+  isIndexed = false;
+  isEmbedded = false;
+}
+
+// Send a highlight command to one subframe, or to all of them
+function sendFrameCommand(command: FrameCommand, frameId?: number): void {
+  chrome.runtime.sendMessage({ type: 'FRAME_COMMAND', command, frameId }).catch((error) => {
+    console.warn('[SemanticFind] Frame command failed:', error);
+  });
+}
+
+// Apply a highlight command from the top frame to this subframe
+function handleFrameCommand(command: FrameCommand): void {
+  switch (command.action) {
+    case 'highlight':
+      batchHighlights(() => {
+        for (const result of command.results) {
+          highlightResult(result);
+        }
+      });
+      break;
+    case 'activate':
+      if (command.chunkId && hasHighlight(command.chunkId)) {
+        setActiveHighlight(command.chunkId, command.scroll);
+      } else {
+        clearActiveHighlight();
+      }
+      break;
+    case 'clear':
+      clearAllHighlights();
+      break;
+    case 'pin':
+      pinHighlights(command.pinId, command.color);
+      break;
+    case 'showPin':
+      setPinVisible(command.pinId, command.visible);
+      break;
+    case 'unpin':
+      unpinHighlights(command.pinId);
+      break;
+    case 'unwatch':
+      stopLiveIndexing();
+      break;
+  }
+}
+
+// Tell the top frame this subframe's chunks need collecting again
+function reportFrameChange(): void {
+  chrome.runtime.sendMessage({ type: 'FRAME_CHANGED' }).catch(() => {
+    // The extension was reloaded and this script is orphaned
+  });
 }
 
 // Handle AI summary request
@@ -168,6 +667,7 @@ async function handleRequestSummary(query: string, results: SearchResult[]): Pro
       type: 'GENERATE_SUMMARY',
       query,
       topResults,
+      locale: getPageLocale(),
     }) as GenerateSummaryResponse;
 
     if (response.success && response.summary) {
@@ -181,12 +681,44 @@ async function handleRequestSummary(query: string, results: SearchResult[]): Pro
 // Listen for messages from service worker
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   console.log('[SemanticFind] Content script received message:', message);
+  if (message.type === 'GET_FRAME_CHUNKS') {
+    if (isTopFrame) return false;
+    // Extraction follows the settings, which may still be loading. Once
+    // collected, this frame watches itself and reports its own changes
+    ready.then(extractChunks)
+      .then((chunks) => {
+        startLiveIndexing(reportFrameChange);
+        sendResponse({ success: true, chunks });
+      })
+      .catch((error) => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+  if (message.type === 'FRAME_COMMAND') {
+    // Fallback highlight spans aren't changes worth reporting
+    if (!isTopFrame) ignoreMutations(() => handleFrameCommand(message.command));
+    sendResponse({ success: true });
+    return false;
+  }
+  if (message.type === 'FRAME_CHANGED') {
+    if (isTopFrame && isIndexed) {
+      const { frameId } = message;
+      pageUpdate = pageUpdate.then(() => handleFrameChange(frameId));
+    }
+    sendResponse({ success: true });
+    return false;
+  }
+  if (message.type === 'ROUTE_CHANGED') {
+    if (isTopFrame) handleRouteChange();
+    sendResponse({ success: true });
+    return false;
+  }
   if (message.type === 'TOGGLE_OVERLAY') {
+    if (!isTopFrame) return false;
     console.log('[SemanticFind] Toggling overlay');
     toggle();
-    // Index page when overlay is shown
+    // Index page when overlay is shown, embedding it only if the search mode needs that
     if (document.querySelector('#semantic-find-overlay.visible')) {
-      indexPage();
+      indexPage(needsEmbeddings(searchMode));
     }
     sendResponse({ success: true });
   }
@@ -194,4 +726,4 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 });
 
 // Initialize on load
-init().catch(console.error);
+const ready = init().catch(console.error);
@@ -0,0 +1,76 @@
+// Walks the composed (rendered) tree: descends into open shadow roots and
+// follows slots to their assigned light DOM nodes, like the browser renders them
+
+// Parent element in the composed tree, crossing shadow root boundaries
+export function getComposedParent(node: Node): Element | null {
+  if (node.parentElement) return node.parentElement;
+
+  const parent = node.parentNode;
+  if (parent && parent instanceof ShadowRoot) return parent.host;
+  return null;
+}
+
+// Whether node is ancestor or lies inside it, counting shadow roots as part
+// of their hosts
+export function composedContains(ancestor: Node, node: Node): boolean {
+  for (let current: Node | null = node; current; current = getComposedParent(current)) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+// Visit root and the nodes under it in rendering order. Returning false
+// from visit skips an element's subtree
+export function walkComposedTree(root: Node, visit: (node: Node) => boolean | void): void {
+  const walk = (node: Node): void => {
+    if (visit(node) === false) return;
+
+    // Light DOM children of a shadow host only render through its slots
+    if (node instanceof Element && node.shadowRoot) {
+      node.shadowRoot.childNodes.forEach(walk);
+      return;
+    }
+
+    // Slots render their assigned nodes, or their own children as fallback
+    if (node instanceof HTMLSlotElement) {
+      const assigned = node.assignedNodes();
+      if (assigned.length > 0) {
+        assigned.forEach(walk);
+        return;
+      }
+    }
+
+    node.childNodes.forEach(walk);
+  };
+
+  walk(root);
+}
+
+// Position of each node under root in rendering order. Unlike
+// compareDocumentPosition, it orders nodes in different shadow trees too
+export function getComposedOrder(root: Node): Map<Node, number> {
+  const order = new Map<Node, number>();
+  walkComposedTree(root, (node) => {
+    order.set(node, order.size);
+  });
+  return order;
+}
+
+// Collect text nodes under root in rendering order
+export function collectTextNodes(
+  root: Node,
+  acceptNode: (node: Text) => boolean,
+  skipElement?: (element: Element) => boolean
+): Text[] {
+  const textNodes: Text[] = [];
+
+  walkComposedTree(root, (node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      if (acceptNode(node as Text)) textNodes.push(node as Text);
+      return false;
+    }
+    return !(node instanceof Element && skipElement?.(node));
+  });
+
+  return textNodes;
+}
@@ -1,52 +1,363 @@
 // Manages text highlighting using CSS Custom Highlight API
 // This approach doesn't modify the DOM, similar to Chrome's built-in Ctrl+F
 
+import { getFirstWords } from '../shared/segmenter';
+import { getPageLocale } from './text-chunker';
+import { collectTextNodes, getComposedParent } from './dom-walker';
+import { isHidden, isRevealable, revealElement } from './reveal';
+import { describeRanges, resolveAnchors, type TextAnchor } from './anchoring';
+import { SCORE_BANDS, PALETTES, getScoreTier, lightenColor, type ScoreTier, type PaletteColors } from './score-tiers';
+import type { HighlightPalette } from '../shared/types';
+
 const HIGHLIGHT_NAME = 'semantic-find-highlight';
 const ACTIVE_HIGHLIGHT_NAME = 'semantic-find-highlight-active';
+const ACTIVE_CONTEXT_HIGHLIGHT_NAME = 'semantic-find-highlight-active-context';
+
+// Each score tier has its own highlight, plus a lighter one for the rest of a
+// chunk whose best-matching sentence is highlighted
+const tierHighlightName = (tier: ScoreTier) => `${HIGHLIGHT_NAME}-${tier}`;
+const tierContextHighlightName = (tier: ScoreTier) => `${HIGHLIGHT_NAME}-${tier}-context`;
+
+const CONTEXT_HIGHLIGHT_NAMES = new Set([
+  ACTIVE_CONTEXT_HIGHLIGHT_NAME,
+  ...SCORE_BANDS.map(({ tier }) => tierContextHighlightName(tier)),
+]);
+const HIGHLIGHT_NAMES = [
+  ACTIVE_HIGHLIGHT_NAME,
+  ...SCORE_BANDS.map(({ tier }) => tierHighlightName(tier)),
+  ...CONTEXT_HIGHLIGHT_NAMES,
+];
+
+// Chunks highlighted without a score are shown as strong matches
+const DEFAULT_TIER: ScoreTier = 'strong';
+
+const STYLE_ELEMENT_ID = 'semantic-find-highlight-styles';
+
+// Pinned queries each get a highlight (and fallback span class) of their own
+const PIN_HIGHLIGHT_NAME = 'semantic-find-pin';
+const pinHighlightName = (pinId: string) => `${PIN_HIGHLIGHT_NAME}-${pinId}`;
+
+// How far past the start of a chunk to look for its focus sentence
+const FOCUS_SEARCH_LENGTH = 2000;
 
 // Track which chunks have been highlighted
 const highlightedChunks: Map<string, Range[]> = new Map();
+// Ranges of the sentence that best matches the query, per chunk
+const focusedChunks: Map<string, Range[]> = new Map();
 let activeHighlightId: string | null = null;
+// What each range of a highlight covers, to find it again if the page
+// re-renders its text
+const rangeAnchors = new WeakMap<Range, TextAnchor>();
+const unanchoredRanges: Range[] = [];
+// Highlights of pinned queries, kept across searches, with their colors and
+// whether they are shown
+const pinnedRanges: Map<string, Range[]> = new Map();
+const pins: Map<string, { color: string; visible: boolean }> = new Map();
+// Score tier of each highlighted chunk
+const chunkTiers: Map<string, ScoreTier> = new Map();
+let palette: PaletteColors = PALETTES.yellow;
+
+// Chunks without highlightable text (e.g. alt text) are shown by outlining
+// their element while active
+const outlinedChunks: Map<string, HTMLElement> = new Map();
+let outlinedElement: HTMLElement | null = null;
+const OUTLINE = '3px solid #ff9632';
+
+// Whether text in collapsed sections was indexed, and so can be highlighted
+let includeHidden = false;
+
+// Nesting depth of batchHighlights, and whether it put off a registry update
+let batchDepth = 0;
+let updatePending = false;
 
 // Check if CSS Custom Highlight API is supported
 const supportsHighlightAPI = typeof CSS !== 'undefined' && 'highlights' in CSS;
 
-// Inject styles for highlight pseudo-elements (Chrome yellow colors)
+// Highlight pseudo-element rules in the current palette, with the class
+// rules the fallback spans use
+function getHighlightStyles(): string {
+  const rules: string[] = [];
+  const add = (name: string, fallbackSelector: string, color: string) => {
+    rules.push(`::highlight(${name}) { background-color: ${color}; }`);
+    rules.push(`${fallbackSelector} { background-color: ${color} !important; }`);
+  };
+
+  for (const { tier } of SCORE_BANDS) {
+    const color = palette.tiers[tier];
+    add(tierHighlightName(tier), `.${HIGHLIGHT_NAME}-${tier}`, color);
+    add(tierContextHighlightName(tier), `.${HIGHLIGHT_NAME}-${tier}.${HIGHLIGHT_NAME}-context`, lightenColor(color));
+  }
+  add(ACTIVE_HIGHLIGHT_NAME, `.${HIGHLIGHT_NAME}.${HIGHLIGHT_NAME}-active`, palette.active);
+  add(ACTIVE_CONTEXT_HIGHLIGHT_NAME, `.${HIGHLIGHT_NAME}.${HIGHLIGHT_NAME}-context.${HIGHLIGHT_NAME}-active`, lightenColor(palette.active));
+
+  for (const [pinId, { color }] of pins) {
+    add(pinHighlightName(pinId), `.${pinHighlightName(pinId)}`, color);
+  }
+  rules.push(`.${PIN_HIGHLIGHT_NAME}.${PIN_HIGHLIGHT_NAME}-hidden { background-color: transparent !important; }`);
+
+  // Light text on a dark page would be unreadable on the highlight colors
+  const highlightSelectors = [...HIGHLIGHT_NAMES, ...Array.from(pins.keys(), pinHighlightName)]
+    .map((name) => `::highlight(${name})`).join(', ');
+  rules.push(`@media (prefers-color-scheme: dark) { ${highlightSelectors}, .${HIGHLIGHT_NAME}, .${PIN_HIGHLIGHT_NAME} { color: #000; } }`);
+
+  return rules.join('\n');
+}
+
+// Shadow roots that already have the highlight styles adopted
+const styledShadowRoots = new WeakSet<ShadowRoot>();
+let shadowStyleSheet: CSSStyleSheet | null = null;
+
+// Inject styles for highlight pseudo-elements
 function injectHighlightStyles(): void {
-  if (document.getElementById('semantic-find-highlight-styles')) return;
+  if (document.getElementById(STYLE_ELEMENT_ID)) return;
 
   const style = document.createElement('style');
-  style.id = 'semantic-find-highlight-styles';
-  style.textContent = `
-    ::highlight(${HIGHLIGHT_NAME}) {
-      background-color: #ffff00;
-    }
-    ::highlight(${ACTIVE_HIGHLIGHT_NAME}) {
-      background-color: #ff9632;
-    }
-  `;
+  style.id = STYLE_ELEMENT_ID;
+  style.textContent = getHighlightStyles();
   document.head.appendChild(style);
 }
 
+// Switch the colors highlights are painted in, e.g. to the color-blind safe palette
+export function setHighlightPalette(name: HighlightPalette): void {
+  palette = PALETTES[name] ?? PALETTES.yellow;
+  refreshHighlightStyles();
+}
+
+function refreshHighlightStyles(): void {
+  const style = document.getElementById(STYLE_ELEMENT_ID);
+  if (style) style.textContent = getHighlightStyles();
+  shadowStyleSheet?.replaceSync(getHighlightStyles());
+}
+
+// Document styles don't reach into shadow trees, so each shadow root
+// holding a highlight needs its own copy of the ::highlight() rules
+function injectShadowHighlightStyles(ranges: Range[]): void {
+  for (const range of ranges) {
+    const root = range.startContainer.getRootNode();
+    if (!(root instanceof ShadowRoot) || styledShadowRoots.has(root)) continue;
+
+    if (!shadowStyleSheet) {
+      shadowStyleSheet = new CSSStyleSheet();
+      shadowStyleSheet.replaceSync(getHighlightStyles());
+    }
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, shadowStyleSheet];
+    styledShadowRoots.add(root);
+  }
+}
+
 // Create a highlight for a text chunk
 export function highlightText(chunkId: string, searchText: string): boolean {
   // Remove existing highlight for this chunk
   removeHighlight(chunkId);
+  injectHighlightStyles();
 
   if (!supportsHighlightAPI) {
     return highlightTextFallback(chunkId, searchText);
   }
 
-  injectHighlightStyles();
-
   // Find text ranges in DOM
   const ranges = findTextRanges(searchText);
   if (ranges.length === 0) {
     return false;
   }
 
-  highlightedChunks.set(chunkId, ranges);
+  injectShadowHighlightStyles(ranges);
+  setChunkRanges(highlightedChunks, chunkId, ranges);
+  updateHighlights();
+  return true;
+}
+
+// Keep a chunk's ranges and anchor them once the current batch of highlights
+// is done, so the page's text is read once per batch rather than per chunk
+function setChunkRanges(chunks: Map<string, Range[]>, chunkId: string, ranges: Range[]): void {
+  chunks.set(chunkId, ranges);
+  if (unanchoredRanges.length === 0) queueMicrotask(anchorRanges);
+  unanchoredRanges.push(...ranges);
+}
+
+function anchorRanges(): void {
+  const ranges = unanchoredRanges.splice(0);
+  describeRanges(ranges).forEach((anchor, index) => {
+    if (anchor) rangeAnchors.set(ranges[index], anchor);
+  });
+}
+
+// Whether a range still covers the text it was anchored to
+function isIntact(range: Range, anchor: TextAnchor): boolean {
+  return range.startContainer.isConnected && range.endContainer.isConnected && range.toString() === anchor.quote.exact;
+}
+
+// Find highlights again whose ranges collapsed or were detached when the page
+// re-rendered their text, returning how many ranges were repaired
+export function repairHighlights(): number {
+  const stale: { chunks: Map<string, Range[]>; chunkId: string; range: Range; anchor: TextAnchor }[] = [];
+  for (const chunks of [highlightedChunks, focusedChunks, pinnedRanges]) {
+    for (const [chunkId, ranges] of chunks) {
+      for (const range of ranges) {
+        const anchor = rangeAnchors.get(range);
+        if (anchor && !isIntact(range, anchor)) stale.push({ chunks, chunkId, range, anchor });
+      }
+    }
+  }
+  if (stale.length === 0) return 0;
+
+  const replacements = new Map<Range, Range[]>();
+  resolveAnchors(stale.map(({ anchor }) => anchor)).forEach((resolved, index) => {
+    if (!resolved) return;
+    const { chunks, chunkId, range } = stale[index];
+    const className = chunks === pinnedRanges
+      ? `${PIN_HIGHLIGHT_NAME} ${pinHighlightName(chunkId)}`
+      : chunks === focusedChunks ? 'semantic-find-highlight semantic-find-highlight-focus' : 'semantic-find-highlight';
+    replacements.set(range, supportsHighlightAPI ? [resolved] : wrapRange(chunkId, resolved, className));
+  });
+
+  // Ranges that can't be found yet keep their anchors, in case their text comes back
+  for (const chunks of [highlightedChunks, focusedChunks, pinnedRanges]) {
+    for (const [chunkId, ranges] of chunks) {
+      if (ranges.some((range) => replacements.has(range))) {
+        setChunkRanges(chunks, chunkId, ranges.flatMap((range) => replacements.get(range) ?? [range]));
+      }
+    }
+  }
+
   updateHighlights();
+  return replacements.size;
+}
+
+// Highlight all text inside an element, e.g. a matching table row, or only
+// the exact (whitespace-preserving) text given, e.g. part of a code block,
+// where it first occurs at or after `from` in the element's textContent
+export function highlightElement(chunkId: string, element: Element, text?: string, from = 0): boolean {
+  removeHighlight(chunkId);
+
+  const range = text === undefined ? selectContents(element) : findExactRange(element, text, from);
+  if (!range) return false;
+  return highlightRange(chunkId, range);
+}
+
+// Highlight a range located by the caller, e.g. text in a PDF's text layer
+export function highlightRange(chunkId: string, range: Range): boolean {
+  return highlightRanges(chunkId, [range]);
+}
+
+// Highlight ranges located by the caller, e.g. a chunk mapped back to the
+// text nodes it was extracted from
+export function highlightRanges(chunkId: string, ranges: Range[]): boolean {
+  removeHighlight(chunkId);
+  const textRanges = ranges.filter((range) => range.toString().trim());
+  if (textRanges.length === 0) return false;
+  injectHighlightStyles();
+
+  if (!supportsHighlightAPI) {
+    const wrapped = textRanges.flatMap((range) => wrapRange(chunkId, range));
+    if (wrapped.length === 0) return false;
+    setChunkRanges(highlightedChunks, chunkId, wrapped);
+    updateHighlights();
+    return true;
+  }
+
+  injectShadowHighlightStyles(textRanges);
+  setChunkRanges(highlightedChunks, chunkId, textRanges);
+  updateHighlights();
+  return true;
+}
+
+// Emphasise the sentence of a highlighted chunk that best answers the query;
+// the rest of the chunk is then shown in a lighter style
+export function highlightFocusText(chunkId: string, text: string): boolean {
+  const chunkRanges = highlightedChunks.get(chunkId);
+  const normalizedText = normalizeText(text);
+  if (!chunkRanges?.length || normalizedText.length < 3) return false;
+
+  // The chunk's ranges may cover only a prefix of its text, so search on from where it starts
+  const start = chunkRanges[0];
+  const nodes: Text[] = [];
+  let length = 0;
+  for (const node of collectSearchableTextNodes()) {
+    if (length > FOCUS_SEARCH_LENGTH) break;
+    if (nodes.length === 0 && !isAtOrAfter(node, start)) continue;
+    nodes.push(node);
+    length += node.length;
+  }
+
+  const [range] = findRangeInNodes(nodes, normalizedText);
+  return range ? highlightFocusRange(chunkId, range) : false;
+}
+
+// Emphasise a range of a highlighted chunk located by the caller
+export function highlightFocusRange(chunkId: string, range: Range): boolean {
+  return highlightFocusRanges(chunkId, [range]);
+}
+
+// Emphasise ranges of a highlighted chunk located by the caller
+export function highlightFocusRanges(chunkId: string, ranges: Range[]): boolean {
+  const textRanges = ranges.filter((range) => range.toString().trim());
+  if (!highlightedChunks.has(chunkId) || textRanges.length === 0) return false;
+
+  if (!supportsHighlightAPI) {
+    const wrapped = textRanges.flatMap((range) => wrapRange(chunkId, range, 'semantic-find-highlight semantic-find-highlight-focus'));
+    if (wrapped.length === 0) return false;
+    setChunkRanges(focusedChunks, chunkId, wrapped);
+    updateHighlights();
+    return true;
+  }
+
+  setChunkRanges(focusedChunks, chunkId, textRanges);
+  updateHighlights();
+  return true;
+}
+
+// Whether a text node ends at or after the start of a range
+function isAtOrAfter(node: Text, range: Range): boolean {
+  try {
+    return range.comparePoint(node, node.length) >= 0;
+  } catch {
+    // In another tree scope than the range
+    return false;
+  }
+}
+
+function selectContents(element: Element): Range {
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  return range;
+}
+
+// Range over the first occurrence of text in an element's textContent at or
+// after an index, so repeated text gets a range per occurrence
+function findExactRange(element: Element, text: string, from: number): Range | null {
+  const index = (element.textContent || '').indexOf(text, from);
+  if (index === -1 || !text) return null;
+
+  const end = index + text.length;
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const nodeEnd = position + node.length;
+    if (!started && index < nodeEnd) {
+      range.setStart(node, index - position);
+      started = true;
+    }
+    if (started && end <= nodeEnd) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position = nodeEnd;
+  }
+
+  return null;
+}
+
+// Register an element to outline when its chunk becomes active, for text
+// the Highlight API can't paint such as attributes
+export function outlineElement(chunkId: string, element: Element): boolean {
+  removeHighlight(chunkId);
+  if (!(element instanceof HTMLElement)) return false;
+
+  outlinedChunks.set(chunkId, element);
   return true;
 }
 
@@ -55,69 +366,67 @@ function findTextRanges(searchText: string): Range[] {
   const normalizedSearch = normalizeText(searchText);
   if (normalizedSearch.length < 3) return [];
 
-  const ranges: Range[] = [];
-
   // Try different search strategies
+  const locale = getPageLocale();
   const searchStrategies = [
     normalizedSearch,
     normalizedSearch.substring(0, Math.min(100, normalizedSearch.length)),
     normalizedSearch.substring(0, Math.min(60, normalizedSearch.length)),
     normalizedSearch.substring(0, Math.min(40, normalizedSearch.length)),
-    getFirstWords(normalizedSearch, 8),
-    getFirstWords(normalizedSearch, 5),
-    getFirstWords(normalizedSearch, 3),
+    getFirstWords(normalizedSearch, 8, locale),
+    getFirstWords(normalizedSearch, 5, locale),
+    getFirstWords(normalizedSearch, 3, locale),
   ];
 
   for (const searchStr of searchStrategies) {
     if (!searchStr || searchStr.length < 3) continue;
 
-    const range = findRangeForText(searchStr);
-    if (range) {
-      ranges.push(range);
-      break;
+    const ranges = findRangeForText(searchStr);
+    if (ranges.length > 0) {
+      return ranges;
     }
   }
 
-  return ranges;
+  return [];
 }
 
-// Get first N words from text
-function getFirstWords(text: string, count: number): string {
-  return text.split(/\s+/).slice(0, count).join(' ');
+// Match text in collapsed sections too, revealing them when navigated to
+export function setIncludeHidden(include: boolean): void {
+  includeHidden = include;
 }
 
-// Find a range for specific text using TreeWalker
-function findRangeForText(searchText: string): Range | null {
-  const treeWalker = document.createTreeWalker(
-    document.body,
-    NodeFilter.SHOW_TEXT,
-    {
-      acceptNode: (node) => {
-        const parent = node.parentElement;
-        if (!parent) return NodeFilter.FILTER_REJECT;
-
-        // Skip hidden elements and scripts
-        const style = window.getComputedStyle(parent);
-        if (style.display === 'none' || style.visibility === 'hidden') {
-          return NodeFilter.FILTER_REJECT;
-        }
-        if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(parent.tagName)) {
-          return NodeFilter.FILTER_REJECT;
-        }
-
-        return NodeFilter.FILTER_ACCEPT;
-      }
+// Find the ranges covering specific text, one per tree scope the match spans
+function findRangeForText(searchText: string): Range[] {
+  return findRangeInNodes(collectSearchableTextNodes(), searchText);
+}
+
+// Visible text nodes of the page, in order
+function collectSearchableTextNodes(): Text[] {
+  // Walk the composed tree so text inside open shadow roots is searched too
+  return collectTextNodes(document.body, (node) => {
+    const parent = getComposedParent(node);
+    if (!parent) return false;
+
+    // Skip hidden elements and scripts
+    if (isHidden(parent) && !(includeHidden && isRevealable(parent))) {
+      return false;
+    }
+    if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(parent.tagName)) {
+      return false;
     }
-  );
 
+    return true;
+  });
+}
+
+// Find the first match of normalized text among the given text nodes
+function findRangeInNodes(visibleTextNodes: Text[], searchText: string): Range[] {
   // Build a map of normalized positions to actual DOM positions
   const textNodes: { node: Text; start: number; text: string }[] = [];
   let totalLength = 0;
   let fullText = '';
 
-  let node: Node | null;
-  while ((node = treeWalker.nextNode())) {
-    const textNode = node as Text;
+  for (const textNode of visibleTextNodes) {
     const nodeText = textNode.textContent || '';
     if (nodeText.trim().length === 0) continue;
 
@@ -135,7 +444,7 @@ function findRangeForText(searchText: string): Range | null {
   const normalizedFull = normalizeText(fullText);
   const matchIndex = normalizedFull.indexOf(searchText);
 
-  if (matchIndex === -1) return null;
+  if (matchIndex === -1) return [];
 
   // Map normalized position back to actual DOM position
   const matchEnd = matchIndex + searchText.length;
@@ -144,6 +453,7 @@ function findRangeForText(searchText: string): Range | null {
   let startOffset = 0;
   let endNode: Text | null = null;
   let endOffset = 0;
+  const matchedNodes: Text[] = [];
 
   let normalizedPos = 0;
 
@@ -158,6 +468,10 @@ function findRangeForText(searchText: string): Range | null {
       startOffset = mapNormalizedToActual(text, matchIndex - nodeStartNorm);
     }
 
+    if (startNode) {
+      matchedNodes.push(textNode);
+    }
+
     // Find end position
     if (startNode && matchEnd > nodeStartNorm && matchEnd <= nodeEndNorm) {
       endNode = textNode;
@@ -177,16 +491,34 @@ function findRangeForText(searchText: string): Range | null {
 
   if (startNode && endNode) {
     try {
-      const range = document.createRange();
-      range.setStart(startNode, Math.min(startOffset, startNode.length));
-      range.setEnd(endNode, Math.min(endOffset, endNode.length));
-      return range;
+      return createScopedRanges(matchedNodes, startOffset, endOffset);
     } catch {
-      return null;
+      return [];
     }
   }
 
-  return null;
+  return [];
+}
+
+// A Range can't cross a shadow boundary, so split the nodes of a match into
+// runs that share a root and cover each run with its own range
+function createScopedRanges(nodes: Text[], startOffset: number, endOffset: number): Range[] {
+  const ranges: Range[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= nodes.length; i++) {
+    if (i < nodes.length && nodes[i].getRootNode() === nodes[runStart].getRootNode()) continue;
+
+    const first = nodes[runStart];
+    const last = nodes[i - 1];
+    const range = document.createRange();
+    range.setStart(first, runStart === 0 ? Math.min(startOffset, first.length) : 0);
+    range.setEnd(last, i === nodes.length ? Math.min(endOffset, last.length) : last.length);
+    ranges.push(range);
+    runStart = i;
+  }
+
+  return ranges;
 }
 
 // Map normalized text position to actual text position
@@ -221,38 +553,161 @@ function normalizeText(text: string): string {
   return text.toLowerCase().replace(/\s+/g, ' ').trim();
 }
 
+// Run a batch of highlight changes, e.g. a search's results, rebuilding the
+// highlights registry once at the end instead of after each change
+export function batchHighlights<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0 && updatePending) {
+      updatePending = false;
+      updateHighlights();
+    }
+  }
+}
+
 // Update the CSS highlights registry
 function updateHighlights(): void {
-  if (!supportsHighlightAPI) return;
+  if (batchDepth > 0) {
+    updatePending = true;
+    return;
+  }
+  updateOutline();
+
+  if (!supportsHighlightAPI) {
+    // Fallback: class each span by its chunk's tier, and as active or context
+    document.querySelectorAll<HTMLElement>(`.${HIGHLIGHT_NAME}`).forEach((el) => {
+      const chunkId = el.dataset.chunkId ?? '';
+      const tier = chunkTiers.get(chunkId) ?? DEFAULT_TIER;
+      for (const band of SCORE_BANDS) {
+        el.classList.toggle(`${HIGHLIGHT_NAME}-${band.tier}`, band.tier === tier);
+      }
+      el.classList.toggle(`${HIGHLIGHT_NAME}-context`, focusedChunks.has(chunkId) && !el.classList.contains(`${HIGHLIGHT_NAME}-focus`));
+      el.classList.toggle(`${HIGHLIGHT_NAME}-active`, chunkId === activeHighlightId);
+    });
+    for (const [pinId, { visible }] of pins) {
+      document.querySelectorAll(`.${pinHighlightName(pinId)}`).forEach((el) => {
+        el.classList.toggle(`${PIN_HIGHLIGHT_NAME}-hidden`, !visible);
+      });
+    }
+    return;
+  }
 
-  // Collect all ranges except active
-  const allRanges: Range[] = [];
-  const activeRanges: Range[] = [];
+  // A chunk with a focus sentence is shown in the lighter context style
+  // around it; one without is highlighted in full
+  const rangesByName = new Map<string, Range[]>(HIGHLIGHT_NAMES.map((name) => [name, []]));
 
   for (const [chunkId, ranges] of highlightedChunks) {
-    if (chunkId === activeHighlightId) {
-      activeRanges.push(...ranges);
+    const active = chunkId === activeHighlightId;
+    const tier = chunkTiers.get(chunkId) ?? DEFAULT_TIER;
+    const fullName = active ? ACTIVE_HIGHLIGHT_NAME : tierHighlightName(tier);
+    const focus = focusedChunks.get(chunkId);
+    if (focus) {
+      rangesByName.get(active ? ACTIVE_CONTEXT_HIGHLIGHT_NAME : tierContextHighlightName(tier))!.push(...ranges);
+      rangesByName.get(fullName)!.push(...focus);
     } else {
-      allRanges.push(...ranges);
+      rangesByName.get(fullName)!.push(...ranges);
     }
   }
 
-  // Clear and set highlights
-  CSS.highlights.delete(HIGHLIGHT_NAME);
-  CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+  // Clear and set highlights; full highlights paint over context ones
+  for (const [name, ranges] of rangesByName) {
+    CSS.highlights.delete(name);
+    if (ranges.length === 0) continue;
+
+    const highlight = new Highlight(...ranges);
+    highlight.priority = CONTEXT_HIGHLIGHT_NAMES.has(name) ? 0 : 1;
+    CSS.highlights.set(name, highlight);
+  }
+
+  // Pinned queries paint under the current search
+  for (const [pinId, { visible }] of pins) {
+    const name = pinHighlightName(pinId);
+    CSS.highlights.delete(name);
+    const ranges = pinnedRanges.get(pinId) ?? [];
+    if (!visible || ranges.length === 0) continue;
+
+    const highlight = new Highlight(...ranges);
+    highlight.priority = -1;
+    CSS.highlights.set(name, highlight);
+  }
+}
+
+// Keep the current search's highlights as a pinned query in a color of its
+// own; they stay on the page through later searches until unpinned. Outlined
+// elements aren't pinned, as outlines only mark the active result.
+export function pinHighlights(pinId: string, color: string): boolean {
+  const ranges = Array.from(highlightedChunks.values()).flat();
+  if (ranges.length === 0) return false;
+
+  pins.set(pinId, { color, visible: true });
+  setChunkRanges(pinnedRanges, pinId, ranges);
+  injectHighlightStyles();
+  refreshHighlightStyles();
+
+  if (!supportsHighlightAPI) {
+    // Fallback: the search's spans become the pin's
+    document.querySelectorAll<HTMLElement>(`.${HIGHLIGHT_NAME}`).forEach((el) => {
+      el.className = `${PIN_HIGHLIGHT_NAME} ${pinHighlightName(pinId)}`;
+      el.dataset.chunkId = pinId;
+    });
+  }
+
+  clearAllHighlights();
+  updateHighlights();
+  return true;
+}
+
+// Show or hide a pinned query's highlights
+export function setPinVisible(pinId: string, visible: boolean): void {
+  const pin = pins.get(pinId);
+  if (!pin) return;
+  pin.visible = visible;
+  updateHighlights();
+}
+
+export function unpinHighlights(pinId: string): void {
+  if (!pins.delete(pinId)) return;
+  pinnedRanges.delete(pinId);
 
-  if (allRanges.length > 0) {
-    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...allRanges));
+  if (supportsHighlightAPI) {
+    CSS.highlights.delete(pinHighlightName(pinId));
+  } else {
+    unwrapSpans(`.${pinHighlightName(pinId)}`);
   }
+  refreshHighlightStyles();
+}
+
+// Paint a highlighted chunk in the color of its score's tier
+export function setHighlightScore(chunkId: string, score: number): void {
+  chunkTiers.set(chunkId, getScoreTier(score));
+  updateHighlights();
+}
+
+// Outline the active chunk's element, if it has one, and no other
+function updateOutline(): void {
+  const target = activeHighlightId ? outlinedChunks.get(activeHighlightId) || null : null;
+  if (target === outlinedElement) return;
 
-  if (activeRanges.length > 0) {
-    CSS.highlights.set(ACTIVE_HIGHLIGHT_NAME, new Highlight(...activeRanges));
+  if (outlinedElement) {
+    outlinedElement.style.removeProperty('outline');
+    outlinedElement.style.removeProperty('outline-offset');
+  }
+  if (target) {
+    target.style.setProperty('outline', OUTLINE, 'important');
+    target.style.setProperty('outline-offset', '2px', 'important');
   }
+  outlinedElement = target;
 }
 
 // Remove highlight by chunk ID
 export function removeHighlight(chunkId: string): void {
   highlightedChunks.delete(chunkId);
+  focusedChunks.delete(chunkId);
+  chunkTiers.delete(chunkId);
+  outlinedChunks.delete(chunkId);
 
   if (activeHighlightId === chunkId) {
     activeHighlightId = null;
@@ -264,45 +719,66 @@ export function removeHighlight(chunkId: string): void {
 // Remove all highlights
 export function clearAllHighlights(): void {
   highlightedChunks.clear();
+  focusedChunks.clear();
+  chunkTiers.clear();
+  outlinedChunks.clear();
   activeHighlightId = null;
+  updateOutline();
 
   if (supportsHighlightAPI) {
-    CSS.highlights.delete(HIGHLIGHT_NAME);
-    CSS.highlights.delete(ACTIVE_HIGHLIGHT_NAME);
+    for (const name of HIGHLIGHT_NAMES) {
+      CSS.highlights.delete(name);
+    }
   } else {
     // Fallback: remove all highlight spans
-    document.querySelectorAll('.semantic-find-highlight').forEach((el) => {
-      const parent = el.parentNode;
-      if (parent) {
-        while (el.firstChild) {
-          parent.insertBefore(el.firstChild, el);
-        }
-        parent.removeChild(el);
-      }
-    });
+    unwrapSpans('.semantic-find-highlight');
   }
 }
 
-// Set active highlight and scroll to it
-export function setActiveHighlight(chunkId: string): void {
+// Fallback: put the text of highlight spans back where it was
+function unwrapSpans(selector: string): void {
+  document.querySelectorAll(selector).forEach((el) => {
+    const parent = el.parentNode;
+    if (parent) {
+      while (el.firstChild) {
+        parent.insertBefore(el.firstChild, el);
+      }
+      parent.removeChild(el);
+    }
+  });
+}
+
+// Set active highlight and (unless told not to) reveal and scroll to it
+export function setActiveHighlight(chunkId: string, scroll: boolean = true): void {
+  repairHighlights();
   activeHighlightId = chunkId;
   updateHighlights();
+  if (!scroll) return;
+
+  const outlined = outlinedChunks.get(chunkId);
+  if (outlined) {
+    revealElement(outlined);
+    outlined.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    return;
+  }
 
-  // Scroll to the first range of the active highlight
-  const ranges = highlightedChunks.get(chunkId);
+  // Scroll to the focus sentence, or else the first range of the active highlight
+  const ranges = focusedChunks.get(chunkId) ?? highlightedChunks.get(chunkId);
   if (ranges && ranges.length > 0) {
     const range = ranges[0];
-    const rect = range.getBoundingClientRect();
 
-    // Scroll the element into view
-    const element = range.startContainer.parentElement;
+    // Open any collapsed section the match is in, then scroll the element into view
+    const container = range.startContainer;
+    const element = container instanceof Element ? container : container.parentElement;
     if (element) {
+      revealElement(element);
       element.scrollIntoView({
         behavior: 'smooth',
         block: 'center',
       });
     } else {
       // Fallback: scroll to the range position
+      const rect = range.getBoundingClientRect();
       window.scrollTo({
         top: window.scrollY + rect.top - window.innerHeight / 2,
         behavior: 'smooth',
@@ -311,26 +787,56 @@ export function setActiveHighlight(chunkId: string): void {
   }
 }
 
+// Where a highlighted chunk is drawn in the viewport, e.g. to mark it on the scrollbar
+export function getHighlightRect(chunkId: string): DOMRect | null {
+  const outlined = outlinedChunks.get(chunkId);
+  if (outlined) return outlined.getBoundingClientRect();
+
+  const range = highlightedChunks.get(chunkId)?.[0];
+  return range ? range.getBoundingClientRect() : null;
+}
+
+// Remove the active highlight without scrolling anywhere
+export function clearActiveHighlight(): void {
+  if (activeHighlightId === null) return;
+  activeHighlightId = null;
+  updateHighlights();
+}
+
+// Check whether a chunk is currently highlighted
+export function hasHighlight(chunkId: string): boolean {
+  return highlightedChunks.has(chunkId) || outlinedChunks.has(chunkId);
+}
+
 // Get number of highlights
 export function getHighlightCount(): number {
-  return highlightedChunks.size;
+  return highlightedChunks.size + outlinedChunks.size;
 }
 
 // Fallback for browsers without CSS Custom Highlight API
 function highlightTextFallback(chunkId: string, searchText: string): boolean {
-  const range = findRangeForText(normalizeText(searchText));
-  if (!range) return false;
+  const normalizedSearch = normalizeText(searchText);
+  if (normalizedSearch.length < 3) return false;
+
+  const ranges = findRangeForText(normalizedSearch).flatMap((range) => wrapRange(chunkId, range));
+  if (ranges.length === 0) return false;
+
+  setChunkRanges(highlightedChunks, chunkId, ranges);
+  updateHighlights();
+  return true;
+}
 
+// Wrap the text of a range in highlight spans, returning the wrapped ranges
+function wrapRange(chunkId: string, range: Range, className: string = 'semantic-find-highlight'): Range[] {
   try {
     const span = document.createElement('span');
-    span.className = 'semantic-find-highlight';
+    span.className = className;
     span.dataset.chunkId = chunkId;
 
     // Check if range crosses element boundaries
-    if (range.startContainer === range.endContainer) {
+    if (range.startContainer === range.endContainer && range.startContainer.nodeType === Node.TEXT_NODE) {
       range.surroundContents(span);
-      highlightedChunks.set(chunkId, [range]);
-      return true;
+      return [range];
     }
 
     // For cross-element ranges, highlight each text node separately
@@ -338,13 +844,16 @@ function highlightTextFallback(chunkId: string, searchText: string): boolean {
     const ranges: Range[] = [];
 
     for (const { node, start, end } of textNodes) {
+      // Whitespace between cells or list items must stay where it is
+      if (!node.data.slice(start, end).trim()) continue;
+
       try {
         const nodeRange = document.createRange();
         nodeRange.setStart(node, start);
         nodeRange.setEnd(node, end);
 
         const highlightSpan = document.createElement('span');
-        highlightSpan.className = 'semantic-find-highlight';
+        highlightSpan.className = className;
         highlightSpan.dataset.chunkId = chunkId;
         nodeRange.surroundContents(highlightSpan);
         ranges.push(nodeRange);
@@ -353,15 +862,10 @@ function highlightTextFallback(chunkId: string, searchText: string): boolean {
       }
     }
 
-    if (ranges.length > 0) {
-      highlightedChunks.set(chunkId, ranges);
-      return true;
-    }
+    return ranges;
   } catch {
-    return false;
+    return [];
   }
-
-  return false;
 }
 
 // Get all text nodes within a range
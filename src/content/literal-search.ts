@@ -0,0 +1,103 @@
+import type { TextChunk, SearchResult, SiteSearchMode, ContentFilter } from '../shared/types';
+import { QueryParseError } from '../shared/query-parser';
+import { matchesContentFilter } from '../shared/content-filter';
+import type { TextNode } from './text-chunker';
+
+// Exact and regex searches, like the browser's own find, over the same text
+// the semantic search ranks. Each occurrence becomes a result of its own whose
+// chunk covers just the matched text, so it highlights and navigates like any
+// other result.
+
+// Highlighting every "e" on a long page would stall it
+const MAX_LITERAL_RESULTS = 1000;
+
+// Pattern for a query; exact queries match any run of whitespace between their
+// words, since extracted text keeps the page's line breaks
+export function createLiteralPattern(query: string, { mode, caseSensitive }: SiteSearchMode): RegExp {
+  // No u flag: it rejects escapes people write out of habit, like \- or \:
+  const flags = caseSensitive ? 'g' : 'gi';
+  if (mode !== 'regex') {
+    const words = query.trim().split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(words.join('\\s+'), flags);
+  }
+
+  try {
+    return new RegExp(query, flags);
+  } catch (error) {
+    throw new QueryParseError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export interface LiteralSearchOptions {
+  // The top frame's extracted text, used instead of laying its chunks out
+  textNodes?: TextNode[];
+  // Keeps matches in code blocks or in prose only, as for semantic searches
+  contentFilter?: ContentFilter;
+}
+
+// Every occurrence of the query in document order. Each frame's text is
+// searched as a whole, laid out at its extraction offsets, so a match can run
+// across chunk boundaries; the top frame's text nodes are used when given,
+// since a subframe's text only reaches the top frame as its chunks
+export function findLiteralMatches(
+  chunks: TextChunk[],
+  query: string,
+  searchMode: SiteSearchMode,
+  { textNodes, contentFilter = 'all' }: LiteralSearchOptions = {}
+): SearchResult[] {
+  const pattern = createLiteralPattern(query, searchMode);
+  const results: SearchResult[] = [];
+
+  const frames = new Map<number | undefined, TextChunk[]>();
+  for (const chunk of chunks) {
+    if (!frames.has(chunk.frameId)) frames.set(chunk.frameId, []);
+    frames.get(chunk.frameId)!.push(chunk);
+  }
+
+  for (const [frameId, frameChunks] of frames) {
+    const sorted = [...frameChunks].sort((a, b) => a.startOffset - b.startOffset);
+    const text = layOutText(frameId === undefined && textNodes ? textNodes : sorted);
+
+    // Each match takes its metadata from the chunk it starts in
+    let owner = 0;
+    for (const match of text.matchAll(pattern)) {
+      // Empty matches (e.g. /a*/) have nothing to highlight
+      if (!match[0]) continue;
+
+      const startOffset = match.index!;
+      while (owner + 1 < sorted.length && sorted[owner + 1].startOffset <= startOffset) owner++;
+      const chunk = sorted[owner];
+      if (!matchesContentFilter(chunk, contentFilter)) continue;
+
+      results.push({
+        chunk: {
+          ...chunk,
+          id: `${chunk.id}:${startOffset - chunk.startOffset}`,
+          text: match[0],
+          startOffset,
+          endOffset: startOffset + match[0].length,
+          embedding: undefined,
+        },
+        score: 1,
+        highlighted: false,
+      });
+      if (results.length === MAX_LITERAL_RESULTS) return results;
+    }
+  }
+
+  return results;
+}
+
+// Lay text out at its offsets, with spaces between pieces as in extraction.
+// Neighbouring chunks can overlap, so text already laid out isn't repeated
+function layOutText(pieces: Array<Pick<TextChunk, 'text' | 'startOffset'>>): string {
+  let text = '';
+  for (const piece of pieces) {
+    if (piece.startOffset >= text.length) {
+      text += ' '.repeat(piece.startOffset - text.length) + piece.text;
+    } else {
+      text += piece.text.slice(text.length - piece.startOffset);
+    }
+  }
+  return text;
+}
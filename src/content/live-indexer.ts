@@ -0,0 +1,107 @@
+// Watches the page for changes (new chat messages, infinite scroll, expanding
+// sections) and reports the elements whose subtrees need re-indexing.
+// Open shadow roots are watched as they're found on the page or added to it;
+// one attached to an element already on the page goes unseen until that
+// element's surroundings change
+
+import { getComposedParent, walkComposedTree } from './dom-walker';
+
+// Quiet period before changes are reported, and the longest a busy page can
+// keep postponing the report
+const DEBOUNCE_MS = 500;
+const MAX_WAIT_MS = 2000;
+
+// Attribute changes that commonly show or hide content
+const WATCHED_ATTRIBUTES = ['hidden', 'open', 'class', 'aria-hidden', 'aria-expanded'];
+
+// Our own UI and fallback highlight spans
+const OWN_ELEMENTS = '#semantic-find-overlay, #semantic-find-minimap, .semantic-find-highlight, .semantic-find-pin';
+
+const OBSERVE_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  characterData: true,
+  attributes: true,
+  attributeFilter: WATCHED_ATTRIBUTES,
+};
+
+type ChangeCallback = (changed: Element[]) => void;
+
+let observer: MutationObserver | null = null;
+let onChange: ChangeCallback | null = null;
+const pending = new Set<Element>();
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+let firstPendingAt = 0;
+let observedRoots = new WeakSet<ShadowRoot>();
+
+// Start reporting changed elements to the callback
+export function startLiveIndexing(callback: ChangeCallback): void {
+  onChange = callback;
+  if (observer) return;
+
+  observer = new MutationObserver(collect);
+  observer.observe(document.body, OBSERVE_OPTIONS);
+  observeShadowRoots(document.body);
+}
+
+// Observers don't see into shadow roots, so each one is observed on its own
+function observeShadowRoots(root: Node): void {
+  walkComposedTree(root, (node) => {
+    if (!(node instanceof Element)) return false;
+    if (node.shadowRoot && !observedRoots.has(node.shadowRoot)) {
+      observedRoots.add(node.shadowRoot);
+      observer?.observe(node.shadowRoot, OBSERVE_OPTIONS);
+    }
+  });
+}
+
+export function stopLiveIndexing(): void {
+  observer?.disconnect();
+  observer = null;
+  observedRoots = new WeakSet();
+  onChange = null;
+  pending.clear();
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = null;
+}
+
+// Run DOM changes of our own (e.g. fallback highlight spans) without them
+// being reported as page changes
+export function ignoreMutations<T>(fn: () => T): T {
+  if (observer) collect(observer.takeRecords());
+  const result = fn();
+  observer?.takeRecords();
+  return result;
+}
+
+function collect(records: MutationRecord[]): void {
+  for (const record of records) {
+    const { target } = record;
+    // Changes at the top of a shadow root belong to its host
+    const element = target instanceof ShadowRoot ? target.host : target instanceof Element ? target : getComposedParent(target);
+    if (!element || element.closest(OWN_ELEMENTS) || isOwnChange(record)) continue;
+    pending.add(element);
+    record.addedNodes.forEach(observeShadowRoots);
+  }
+
+  if (pending.size === 0) return;
+
+  if (!debounceTimer) firstPendingAt = Date.now();
+  if (debounceTimer) clearTimeout(debounceTimer);
+  const wait = Math.max(0, Math.min(DEBOUNCE_MS, firstPendingAt + MAX_WAIT_MS - Date.now()));
+  debounceTimer = setTimeout(flush, wait);
+}
+
+// Adding or removing only our own elements (e.g. the overlay) isn't a page change
+function isOwnChange(record: MutationRecord): boolean {
+  if (record.type !== 'childList') return false;
+  const nodes = [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)];
+  return nodes.length > 0 && nodes.every((node) => node instanceof Element && node.matches(OWN_ELEMENTS));
+}
+
+function flush(): void {
+  debounceTimer = null;
+  const changed = Array.from(pending);
+  pending.clear();
+  if (changed.length > 0) onChange?.(changed);
+}
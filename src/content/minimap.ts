@@ -0,0 +1,111 @@
+import type { SearchResult, HighlightPalette } from '../shared/types';
+import { getHighlightRect } from './highlighter';
+import { PALETTES, SCORE_BANDS, getScoreTier } from './score-tiers';
+
+// A thin track along the right edge of the window with a tick for each
+// result, like the match markers Chrome's find draws on the scrollbar
+
+type SelectCallback = (index: number) => void;
+
+let minimap: HTMLElement | null = null;
+let results: SearchResult[] = [];
+let activeIndex = -1;
+let palette: HighlightPalette = 'yellow';
+let onSelect: SelectCallback | null = null;
+let frameRequest: number | null = null;
+
+function createMinimap(): HTMLElement {
+  if (minimap) return minimap;
+
+  minimap = document.createElement('div');
+  minimap.id = 'semantic-find-minimap';
+  minimap.addEventListener('click', (e) => {
+    e.stopPropagation();
+    const tick = (e.target as Element).closest<HTMLElement>('.sf-minimap-tick');
+    if (tick) onSelect?.(Number(tick.dataset.index));
+  });
+
+  document.body.appendChild(minimap);
+  return minimap;
+}
+
+// Mark the results on the track; results highlighted in other frames have no
+// position here and are left out
+export function showMinimap(newResults: SearchResult[], newPalette: HighlightPalette): void {
+  results = newResults;
+  palette = newPalette;
+  activeIndex = Math.min(activeIndex, results.length - 1);
+
+  if (results.length === 0) {
+    hideMinimap();
+    return;
+  }
+
+  createMinimap().classList.add('visible');
+  window.addEventListener('scroll', scheduleUpdate, { passive: true });
+  window.addEventListener('resize', scheduleUpdate);
+  renderTicks();
+}
+
+export function hideMinimap(): void {
+  results = [];
+  activeIndex = -1;
+  window.removeEventListener('scroll', scheduleUpdate);
+  window.removeEventListener('resize', scheduleUpdate);
+  if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+  frameRequest = null;
+
+  if (!minimap) return;
+  minimap.classList.remove('visible');
+  minimap.replaceChildren();
+}
+
+// Mark the current result's tick
+export function setMinimapActive(index: number): void {
+  activeIndex = index;
+  minimap?.querySelectorAll<HTMLElement>('.sf-minimap-tick').forEach((tick) => {
+    tick.classList.toggle('active', Number(tick.dataset.index) === index);
+  });
+}
+
+export function setOnMinimapSelect(callback: SelectCallback): void {
+  onSelect = callback;
+}
+
+// Highlights move as the page lays out again (lazy images, expanding
+// sections, a narrower window), so ticks are placed again at most once a frame
+function scheduleUpdate(): void {
+  if (frameRequest !== null) return;
+  frameRequest = requestAnimationFrame(() => {
+    frameRequest = null;
+    renderTicks();
+  });
+}
+
+function renderTicks(): void {
+  if (!minimap) return;
+
+  const colors = PALETTES[palette] ?? PALETTES.yellow;
+  const labels = new Map(SCORE_BANDS.map(({ tier, label }) => [tier, label]));
+  const pageHeight = Math.max(document.documentElement.scrollHeight, window.innerHeight);
+
+  const ticks: HTMLElement[] = [];
+  results.forEach((result, index) => {
+    if (result.chunk.frameId !== undefined) return;
+    const rect = getHighlightRect(result.chunk.id);
+    if (!rect || (rect.width === 0 && rect.height === 0)) return;
+
+    const tier = getScoreTier(result.score);
+    const tick = document.createElement('div');
+    tick.className = 'sf-minimap-tick';
+    tick.classList.toggle('active', index === activeIndex);
+    tick.dataset.index = String(index);
+    tick.title = `Result ${index + 1} (${labels.get(tier)} match)`;
+    tick.style.top = `${((rect.top + window.scrollY) / pageHeight) * 100}%`;
+    tick.style.setProperty('--sf-tick-color', colors.tiers[tier]);
+    tick.style.setProperty('--sf-tick-active-color', colors.active);
+    ticks.push(tick);
+  });
+
+  minimap.replaceChildren(...ticks);
+}
@@ -1,5 +1,8 @@
-import type { SearchResult, Settings } from '../shared/types';
+import type { SearchResult, Settings, SearchMode, SiteSearchMode } from '../shared/types';
+import { DEFAULT_SEARCH_MODE } from '../shared/types';
 import { createSummaryPanel, showSummary, showSummaryLoading, hideSummary } from './summary-panel';
+import { SCORE_BANDS, PALETTES, getScoreTier } from './score-tiers';
+import type { PinnedQuery } from './pins';
 
 // Overlay state
 let overlay: HTMLElement | null = null;
@@ -7,16 +10,27 @@ let isVisible = false;
 let currentResults: SearchResult[] = [];
 let currentIndex = 0;
 let settings: Settings | null = null;
+let searchMode: SiteSearchMode = DEFAULT_SEARCH_MODE;
 
 type SearchCallback = (query: string) => void;
 type NavigateCallback = (index: number) => void;
 type CloseCallback = () => void;
+type ClearCallback = () => void;
 type SummaryCallback = (query: string, results: SearchResult[]) => void;
+// Whether the query was pinned
+type PinCallback = (query: string) => boolean;
+type PinToggleCallback = (pinId: string) => void;
+type ModeChangeCallback = (mode: SiteSearchMode) => void;
 
 let onSearch: SearchCallback | null = null;
 let onNavigate: NavigateCallback | null = null;
 let onClose: CloseCallback | null = null;
+let onClear: ClearCallback | null = null;
 let onRequestSummary: SummaryCallback | null = null;
+let onPin: PinCallback | null = null;
+let onTogglePin: PinToggleCallback | null = null;
+let onUnpin: PinToggleCallback | null = null;
+let onModeChange: ModeChangeCallback | null = null;
 
 export function createOverlay(): HTMLElement {
   if (overlay) {
@@ -27,8 +41,16 @@ export function createOverlay(): HTMLElement {
   overlay.id = 'semantic-find-overlay';
   overlay.innerHTML = `
     <div class="sf-container">
+      <select class="sf-mode" id="sf-mode" title="Search mode">
+        <option value="semantic" title="By meaning only">Semantic</option>
+        <option value="hybrid" title="By meaning, boosted by matching words">Hybrid</option>
+        <option value="exact" title="Exact text, like the browser's find">Exact</option>
+        <option value="regex" title="Regular expression">Regex</option>
+      </select>
       <input type="text" id="sf-search-input" placeholder="Find" autocomplete="off" />
+      <button class="sf-case-btn" id="sf-case" title="Match case" aria-pressed="false">Aa</button>
       <span class="sf-count" id="sf-result-count"></span>
+      <span class="sf-match" id="sf-match"></span>
       <span class="sf-status" id="sf-status"></span>
       <div class="sf-separator"></div>
       <button class="sf-nav-btn" id="sf-prev" title="Previous match (Shift+Enter)">
@@ -41,6 +63,11 @@ export function createOverlay(): HTMLElement {
           <path d="M7.41 8.59L12 13.17l4.59-4.58L18 10l-6 6-6-6z"/>
         </svg>
       </button>
+      <button class="sf-nav-btn" id="sf-pin" title="Pin this search's highlights" disabled>
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z"/>
+        </svg>
+      </button>
       <div class="sf-separator"></div>
       <button class="sf-close-btn" id="sf-close" title="Close (Escape)">
         <svg viewBox="0 0 24 24" fill="currentColor">
@@ -48,6 +75,9 @@ export function createOverlay(): HTMLElement {
         </svg>
       </button>
     </div>
+    <div class="sf-context" id="sf-context"></div>
+    <div class="sf-legend" id="sf-legend" title="Highlight colors by match strength"></div>
+    <div class="sf-pins" id="sf-pins"></div>
     <div id="sf-summary-container"></div>
   `;
 
@@ -61,7 +91,11 @@ export function createOverlay(): HTMLElement {
   const input = overlay.querySelector('#sf-search-input') as HTMLInputElement;
   const prevBtn = overlay.querySelector('#sf-prev') as HTMLButtonElement;
   const nextBtn = overlay.querySelector('#sf-next') as HTMLButtonElement;
+  const pinBtn = overlay.querySelector('#sf-pin') as HTMLButtonElement;
   const closeBtn = overlay.querySelector('#sf-close') as HTMLButtonElement;
+  const pinsEl = overlay.querySelector('#sf-pins') as HTMLElement;
+  const modeSelect = overlay.querySelector('#sf-mode') as HTMLSelectElement;
+  const caseBtn = overlay.querySelector('#sf-case') as HTMLButtonElement;
 
   let searchTimeout: ReturnType<typeof setTimeout> | null = null;
 
@@ -75,7 +109,9 @@ export function createOverlay(): HTMLElement {
       if (query.length >= 2 && onSearch) {
         onSearch(query);
       } else if (query.length < 2) {
+        // An emptied box ends the search, so nothing re-runs it later
         updateResults([]);
+        onClear?.();
       }
     }, 300);
   });
@@ -98,10 +134,50 @@ export function createOverlay(): HTMLElement {
   nextBtn.addEventListener('click', navigateNext);
   closeBtn.addEventListener('click', hide);
 
+  // Switching modes runs the open query again in the new one
+  const changeMode = (mode: SiteSearchMode) => {
+    setSearchMode(mode);
+    onModeChange?.(mode);
+
+    const query = input.value.trim();
+    if (query.length >= 2) onSearch?.(query);
+    input.focus();
+  };
+  modeSelect.addEventListener('change', () => {
+    changeMode({ ...searchMode, mode: modeSelect.value as SearchMode });
+  });
+  caseBtn.addEventListener('click', () => {
+    changeMode({ ...searchMode, caseSensitive: !searchMode.caseSensitive });
+  });
+
+  pinBtn.addEventListener('click', () => {
+    const query = input.value.trim();
+    if (!query || currentResults.length === 0) return;
+
+    // A query not searched yet (still being typed) stays in the box
+    if (!onPin?.(query)) return;
+    input.value = '';
+    updateResults([]);
+    input.focus();
+  });
+
+  pinsEl.addEventListener('click', (e) => {
+    const target = e.target as Element;
+    const chip = target.closest<HTMLElement>('.sf-pin-chip');
+    if (!chip?.dataset.pinId) return;
+
+    if (target.closest('.sf-pin-remove')) {
+      onUnpin?.(chip.dataset.pinId);
+    } else {
+      onTogglePin?.(chip.dataset.pinId);
+    }
+  });
+
   // Prevent clicks inside overlay from propagating
   overlay.addEventListener('click', (e) => e.stopPropagation());
 
   document.body.appendChild(overlay);
+  setSearchMode(searchMode);
   return overlay;
 }
 
@@ -160,6 +236,10 @@ export function updateResults(results: SearchResult[]): void {
     }
   }
 
+  updateContext();
+  updateLegend();
+  updatePinButton();
+
   if (statusEl) {
     statusEl.textContent = '';
   }
@@ -182,6 +262,26 @@ export function updateResults(results: SearchResult[]): void {
   }
 }
 
+// Replace the results after the page changed, staying on the same match if
+// it is still there; returns the index of the current result
+export function refreshResults(results: SearchResult[]): number {
+  const currentId = currentResults[currentIndex]?.chunk.id;
+  const index = results.findIndex((result) => result.chunk.id === currentId);
+
+  currentResults = results;
+  currentIndex = index >= 0 ? index : Math.max(0, Math.min(currentIndex, results.length - 1));
+
+  const countEl = overlay?.querySelector('#sf-result-count');
+  if (countEl) {
+    countEl.textContent = results.length > 0 ? `${currentIndex + 1} of ${results.length}` : '';
+  }
+  updateContext();
+  updateLegend();
+  updatePinButton();
+
+  return currentIndex;
+}
+
 export function updateSummary(summary: string): void {
   showSummary(summary);
 }
@@ -195,6 +295,7 @@ export function setStatus(status: string): void {
 
 export function setSettings(newSettings: Settings): void {
   settings = newSettings;
+  updateLegend();
 }
 
 function navigateNext(): void {
@@ -213,11 +314,130 @@ function navigatePrev(): void {
   onNavigate?.(currentIndex);
 }
 
+// Go to a result picked outside the search bar, e.g. on the scrollbar minimap
+export function selectResult(index: number): void {
+  if (index < 0 || index >= currentResults.length) return;
+
+  currentIndex = index;
+  updateNavigationUI();
+  onNavigate?.(currentIndex);
+}
+
 function updateNavigationUI(): void {
   const countEl = overlay?.querySelector('#sf-result-count');
   if (countEl && currentResults.length > 0) {
     countEl.textContent = `${currentIndex + 1} of ${currentResults.length}`;
   }
+  updateContext();
+}
+
+// Show the heading trail of the current result, e.g. "Installation › Linux",
+// and which part of the search found it
+function updateContext(): void {
+  updateMatchKind();
+  const contextEl = overlay?.querySelector('#sf-context');
+  if (!contextEl) return;
+
+  const chunk = currentResults[currentIndex]?.chunk;
+  const context = [...(chunk?.page ? [`Page ${chunk.page}`] : []), ...(chunk?.headingPath || [])];
+  contextEl.textContent = context.join(' › ');
+  contextEl.classList.toggle('visible', context.length > 0);
+}
+
+const MATCH_LABELS: Record<string, { label: string; title: string }> = {
+  semantic: { label: 'Meaning', title: 'Matched by meaning' },
+  lexical: { label: 'Words', title: 'Matched by the words of the search' },
+  'lexical+semantic': { label: 'Words + meaning', title: 'Matched by both the words and the meaning of the search' },
+};
+
+function updateMatchKind(): void {
+  const matchEl = overlay?.querySelector<HTMLElement>('#sf-match');
+  if (!matchEl) return;
+
+  const matchedBy = currentResults[currentIndex]?.matchedBy;
+  const match = matchedBy && MATCH_LABELS[[...matchedBy].sort().join('+')];
+  matchEl.textContent = match?.label ?? '';
+  matchEl.title = match?.title ?? '';
+}
+
+// Show the color of each score tier and how many results fall in it; exact
+// and regex matches have no scores to tell apart
+function updateLegend(): void {
+  const legendEl = overlay?.querySelector('#sf-legend');
+  if (!legendEl) return;
+
+  const colors = PALETTES[settings?.highlightPalette ?? 'yellow'] ?? PALETTES.yellow;
+  legendEl.replaceChildren(...SCORE_BANDS.map(({ tier, label }) => {
+    const count = currentResults.filter((result) => getScoreTier(result.score) === tier).length;
+    const swatch = document.createElement('span');
+    swatch.className = 'sf-legend-swatch';
+    swatch.style.backgroundColor = colors.tiers[tier];
+
+    const item = document.createElement('span');
+    item.className = 'sf-legend-item';
+    item.append(swatch, `${label} ${count}`);
+    return item;
+  }));
+  legendEl.classList.toggle('visible', currentResults.length > 0 && !isLiteralMode(searchMode.mode));
+}
+
+function isLiteralMode(mode: SearchMode): boolean {
+  return mode === 'exact' || mode === 'regex';
+}
+
+// Show a search mode in the bar, e.g. the one last used on this site; case
+// only matters to exact and regex searches
+export function setSearchMode(mode: SiteSearchMode): void {
+  searchMode = mode;
+
+  const modeSelect = overlay?.querySelector<HTMLSelectElement>('#sf-mode');
+  if (modeSelect) modeSelect.value = mode.mode;
+
+  const caseBtn = overlay?.querySelector<HTMLButtonElement>('#sf-case');
+  if (caseBtn) {
+    caseBtn.hidden = !isLiteralMode(mode.mode);
+    caseBtn.setAttribute('aria-pressed', String(mode.caseSensitive));
+  }
+
+  const input = overlay?.querySelector<HTMLInputElement>('#sf-search-input');
+  if (input) input.placeholder = mode.mode === 'regex' ? 'Find (regex)' : 'Find';
+  updateLegend();
+}
+
+// List the pinned queries as chips in their highlight colors; clicking a
+// chip shows or hides its highlights, and its × unpins it
+export function updatePins(pins: PinnedQuery[]): void {
+  const pinsEl = overlay?.querySelector('#sf-pins');
+  if (!pinsEl) return;
+
+  pinsEl.replaceChildren(...pins.map((pin) => {
+    const swatch = document.createElement('span');
+    swatch.className = 'sf-legend-swatch';
+    swatch.style.backgroundColor = pin.color;
+
+    const label = document.createElement('span');
+    label.className = 'sf-pin-label';
+    label.textContent = pin.query;
+
+    const remove = document.createElement('button');
+    remove.className = 'sf-pin-remove';
+    remove.title = 'Unpin';
+    remove.textContent = '×';
+
+    const chip = document.createElement('span');
+    chip.className = 'sf-pin-chip';
+    chip.classList.toggle('hidden', !pin.visible);
+    chip.dataset.pinId = pin.id;
+    chip.title = pin.visible ? `Hide highlights for "${pin.query}"` : `Show highlights for "${pin.query}"`;
+    chip.append(swatch, label, remove);
+    return chip;
+  }));
+  pinsEl.classList.toggle('visible', pins.length > 0);
+}
+
+function updatePinButton(): void {
+  const pinBtn = overlay?.querySelector<HTMLButtonElement>('#sf-pin');
+  if (pinBtn) pinBtn.disabled = currentResults.length === 0;
 }
 
 // Callback setters
@@ -233,6 +453,26 @@ export function setOnClose(callback: CloseCallback): void {
   onClose = callback;
 }
 
+export function setOnClear(callback: ClearCallback): void {
+  onClear = callback;
+}
+
 export function setOnRequestSummary(callback: SummaryCallback): void {
   onRequestSummary = callback;
 }
+
+export function setOnPin(callback: PinCallback): void {
+  onPin = callback;
+}
+
+export function setOnTogglePin(callback: PinToggleCallback): void {
+  onTogglePin = callback;
+}
+
+export function setOnUnpin(callback: PinToggleCallback): void {
+  onUnpin = callback;
+}
+
+export function setOnModeChange(callback: ModeChangeCallback): void {
+  onModeChange = callback;
+}
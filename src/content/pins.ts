@@ -0,0 +1,23 @@
+// Pinned queries keep their highlights on the page through later searches,
+// each in a color of its own, so several concepts can be followed at once
+// (e.g. "termination", "liability caps" and "data retention" in a contract)
+
+export interface PinnedQuery {
+  id: string;
+  query: string;
+  color: string;
+  visible: boolean;
+}
+
+// Pastels that stay apart from each other and from the search's yellows and
+// blues, so text under them stays readable
+export const PIN_COLORS = ['#a8e6a1', '#f5b3e6', '#ffd27f', '#c9b3ff', '#9ee7e0'];
+
+let nextPinId = 1;
+
+// A new pin in the first color no other pin uses, reusing colors once all are taken
+export function createPin(query: string, pins: PinnedQuery[]): PinnedQuery {
+  const used = new Set(pins.map((pin) => pin.color));
+  const color = PIN_COLORS.find((c) => !used.has(c)) ?? PIN_COLORS[pins.length % PIN_COLORS.length];
+  return { id: String(nextPinId++), query, color, visible: true };
+}
@@ -0,0 +1,100 @@
+import { escapeIdentifier } from './structure';
+
+// Content the page hides until the reader asks for it: closed <details>,
+// inactive ARIA tab panels, collapsed accordion sections and
+// hidden="until-found" sections. It can be searched when the user opts in,
+// and is revealed the way Chrome's native find does before scrolling to it.
+
+// Hidden by an ancestor in browsers without Element.checkVisibility (e.g. jsdom)
+const HIDDEN_ANCESTOR_SELECTOR = '[hidden], details:not([open]) > :not(summary)';
+
+// Whether an element isn't rendered
+export function isHidden(element: Element): boolean {
+  if ('checkVisibility' in element && typeof element.checkVisibility === 'function') {
+    return !element.checkVisibility({ visibilityProperty: true });
+  }
+
+  const style = window.getComputedStyle(element);
+  return style.display === 'none' || style.visibility === 'hidden' || !!element.closest(HIDDEN_ANCESTOR_SELECTOR);
+}
+
+// Whether an element sits in a collapsed section that revealElement can open
+export function isRevealable(element: Element): boolean {
+  return findCollapsedSections(element).length > 0;
+}
+
+// Open every collapsed section around an element, outermost first, returning
+// whether anything changed
+export function revealElement(element: Element): boolean {
+  const sections = findCollapsedSections(element).reverse();
+  for (const section of sections) {
+    openSection(section);
+  }
+  return sections.length > 0;
+}
+
+interface CollapsedSection {
+  container: Element;
+  // Tab or accordion button that expands the container, if it has one
+  control: HTMLElement | null;
+}
+
+// Collapsed sections containing an element, innermost first
+function findCollapsedSections(element: Element): CollapsedSection[] {
+  const sections: CollapsedSection[] = [];
+
+  for (let ancestor: Element | null = element; ancestor; ancestor = ancestor.parentElement) {
+    if (ancestor instanceof HTMLDetailsElement) {
+      // The summary of a closed <details> is still shown
+      const inSummary = ancestor !== element && element.closest('summary')?.parentElement === ancestor;
+      if (!ancestor.open && !inSummary) sections.push({ container: ancestor, control: null });
+      continue;
+    }
+
+    if (ancestor.getAttribute('hidden') === 'until-found') {
+      sections.push({ container: ancestor, control: null });
+      continue;
+    }
+
+    const control = findCollapsedControl(ancestor);
+    if (control) sections.push({ container: ancestor, control });
+  }
+
+  return sections;
+}
+
+// The tab or disclosure button that shows a collapsed panel
+function findCollapsedControl(panel: Element): HTMLElement | null {
+  if (!panel.id && !panel.hasAttribute('aria-labelledby')) return null;
+
+  const controls: Element[] = panel.id
+    ? Array.from(document.querySelectorAll(`[aria-controls~="${escapeIdentifier(panel.id)}"]`))
+    : [];
+
+  // Tab panels are often tied to their tab only by aria-labelledby
+  if (panel.getAttribute('role') === 'tabpanel') {
+    for (const id of panel.getAttribute('aria-labelledby')?.split(/\s+/) || []) {
+      const tab = document.getElementById(id);
+      if (tab?.getAttribute('role') === 'tab') controls.push(tab);
+    }
+  }
+
+  const control = controls.find((candidate) => candidate.getAttribute('role') === 'tab'
+    ? candidate.getAttribute('aria-selected') !== 'true'
+    : candidate.getAttribute('aria-expanded') === 'false');
+
+  return control instanceof HTMLElement ? control : null;
+}
+
+function openSection({ container, control }: CollapsedSection): void {
+  if (container instanceof HTMLDetailsElement) {
+    container.open = true;
+  } else if (control) {
+    // Let the page's own script switch tabs or expand the accordion
+    control.click();
+  } else {
+    // The page may listen for this to update its own state, as it would for native find
+    container.dispatchEvent(new Event('beforematch', { bubbles: true }));
+    container.removeAttribute('hidden');
+  }
+}
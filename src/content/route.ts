@@ -0,0 +1,14 @@
+// Identifies which route of a single-page app a URL points at, so history
+// navigation can be told apart from jumping to an anchor on the same page
+
+// Hash fragments that carry a route (#/inbox, #!/settings) rather than an anchor
+const HASH_ROUTE_PATTERN = /^#!?\//;
+
+// The URL without a plain #anchor; hash-routed apps keep their route
+export function getRouteKey(href: string): string {
+  const url = new URL(href);
+  if (!HASH_ROUTE_PATTERN.test(url.hash)) {
+    url.hash = '';
+  }
+  return url.href;
+}
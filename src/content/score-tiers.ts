@@ -0,0 +1,49 @@
+import type { HighlightPalette } from '../shared/types';
+
+// Results are painted in bands of similarity score, so the strongest matches
+// stand out at a glance while scrolling through the page
+
+export type ScoreTier = 'strong' | 'medium' | 'weak';
+
+interface ScoreBand {
+  tier: ScoreTier;
+  label: string;
+  minScore: number;
+}
+
+// Strongest first; anything that passed the similarity threshold is at least weak
+export const SCORE_BANDS: ScoreBand[] = [
+  { tier: 'strong', label: 'Strong', minScore: 0.6 },
+  { tier: 'medium', label: 'Medium', minScore: 0.45 },
+  { tier: 'weak', label: 'Weak', minScore: -Infinity },
+];
+
+export interface PaletteColors {
+  tiers: Record<ScoreTier, string>;
+  // The current match
+  active: string;
+}
+
+export const PALETTES: Record<HighlightPalette, PaletteColors> = {
+  // Chrome's find-in-page yellow, fading as the score drops
+  yellow: {
+    tiers: { strong: '#ffff00', medium: '#fff59d', weak: '#fffbdc' },
+    active: '#ff9632',
+  },
+  // Blues with an orange current match, which stay apart under the common
+  // color vision deficiencies (Okabe-Ito sky blue and orange)
+  colorblind: {
+    tiers: { strong: '#56b4e9', medium: '#a3d5f3', weak: '#dcf0fb' },
+    active: '#e69f00',
+  },
+};
+
+export function getScoreTier(score: number): ScoreTier {
+  return SCORE_BANDS.find((band) => score >= band.minScore)?.tier ?? 'weak';
+}
+
+// Lighter shade of a color, for the rest of a chunk around its focus sentence
+export function lightenColor(hex: string, amount: number = 0.6): string {
+  const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `#${channels.map((c) => Math.round(c + (255 - c) * amount).toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,141 @@
+import type { BlockType } from '../shared/types';
+import { getComposedParent } from './dom-walker';
+
+// Tags that give text its block type; the nearest one wins
+const BLOCK_TYPES: Record<string, BlockType> = {
+  H1: 'heading', H2: 'heading', H3: 'heading', H4: 'heading', H5: 'heading', H6: 'heading',
+  P: 'paragraph',
+  LI: 'list-item', DT: 'list-item', DD: 'list-item',
+  TD: 'table-cell', TH: 'table-cell',
+  PRE: 'code',
+  BLOCKQUOTE: 'blockquote',
+};
+
+// Containers whose type overrides the blocks inside them
+const CONTAINER_TYPES: Record<string, BlockType> = {
+  PRE: 'code',
+  BLOCKQUOTE: 'blockquote',
+};
+
+// Layout elements used as the owning block when no typed block is found
+const GENERIC_BLOCKS = new Set([
+  'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'FIGURE', 'FIGCAPTION', 'DETAILS', 'SUMMARY',
+  'TABLE', 'CAPTION', 'UL', 'OL', 'DL', 'FORM', 'FIELDSET', 'BODY',
+]);
+
+export interface BlockInfo {
+  element: Element;
+  blockType: BlockType;
+}
+
+// Find the block element that owns a text node and classify it
+export function getBlockInfo(node: Node): BlockInfo | null {
+  let element: Element | null = null;
+  let blockType: BlockType = 'other';
+  let current = getComposedParent(node);
+
+  while (current) {
+    const tag = current.tagName;
+    if (!element && BLOCK_TYPES[tag]) {
+      element = current;
+      blockType = BLOCK_TYPES[tag];
+    } else if (!element && GENERIC_BLOCKS.has(tag)) {
+      element = current;
+    } else if (element && CONTAINER_TYPES[tag]) {
+      blockType = CONTAINER_TYPES[tag];
+    }
+    current = getComposedParent(current);
+  }
+
+  return element ? { element, blockType } : null;
+}
+
+// Find the <pre> block a text node belongs to
+export function getCodeBlock(node: Node): HTMLPreElement | null {
+  let current = getComposedParent(node);
+  while (current) {
+    if (current instanceof HTMLPreElement) return current;
+    current = getComposedParent(current);
+  }
+  return null;
+}
+
+// Text of a code block with its whitespace intact, minus blank lines around it
+export function getCodeText(pre: HTMLPreElement): string {
+  return (pre.textContent || '').replace(/^\s*\n/, '').replace(/\s+$/, '');
+}
+
+// Where getCodeText's text starts in a block's textContent, past the blank
+// lines it leaves out
+export function getCodeTextStart(pre: Element): number {
+  return /^\s*\n/.exec(pre.textContent || '')?.[0].length ?? 0;
+}
+
+// Language named by a language-* or lang-* class on the block or its <code>
+export function getCodeLanguage(pre: HTMLPreElement): string | undefined {
+  for (const element of [pre, pre.querySelector('code')]) {
+    const match = element && /(?:^|\s)lang(?:uage)?-([\w+#-]+)/.exec(element.className);
+    if (match) return match[1].toLowerCase();
+  }
+  return undefined;
+}
+
+// Heading level (1-6) of an element, or 0 if it isn't a heading
+export function getHeadingLevel(element: Element): number {
+  const match = /^H([1-6])$/.exec(element.tagName);
+  return match ? Number(match[1]) : 0;
+}
+
+// Selector steps ("p" or "p:nth-of-type(3)") of elements whose parent has
+// been seen, so each parent's children are counted once per extraction
+export type SelectorCache = WeakMap<Element, string>;
+
+// Build a CSS selector for an element that survives reloads of the same page,
+// anchored at the nearest ancestor with an id (within the element's own tree)
+export function getElementSelector(element: Element, cache: SelectorCache = new WeakMap()): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${escapeIdentifier(current.id)}`);
+      break;
+    }
+
+    const parent: Element | null = current.parentElement;
+    if (!parent) {
+      parts.unshift(current.tagName.toLowerCase());
+      break;
+    }
+
+    if (!cache.has(current)) cacheSelectorSteps(parent, cache);
+    parts.unshift(cache.get(current)!);
+    current = parent;
+  }
+
+  return parts.join(' > ');
+}
+
+// Work out the selector step of every child of a parent in one pass
+function cacheSelectorSteps(parent: Element, cache: SelectorCache): void {
+  const counts = new Map<string, number>();
+  const indexes: number[] = [];
+  const children = Array.from(parent.children);
+
+  for (const child of children) {
+    const count = (counts.get(child.tagName) ?? 0) + 1;
+    counts.set(child.tagName, count);
+    indexes.push(count);
+  }
+
+  children.forEach((child, i) => {
+    const tag = child.tagName.toLowerCase();
+    cache.set(child, counts.get(child.tagName)! > 1 ? `${tag}:nth-of-type(${indexes[i]})` : tag);
+  });
+}
+
+// CSS.escape isn't available everywhere (e.g. jsdom), so escape by hand when missing
+export function escapeIdentifier(value: string): string {
+  if (typeof CSS !== 'undefined' && CSS.escape) return CSS.escape(value);
+  return value.replace(/[^\w-]/g, '\\$&').replace(/^(\d)/, '\\3$1 ');
+}
@@ -0,0 +1,126 @@
+// Turns data table rows into self-describing text: each cell is labelled with
+// its column header and the row is prefixed with the table caption
+
+import { getComposedParent } from './dom-walker';
+
+// Find the data table row a text node belongs to
+export function getTableRow(node: Node): HTMLTableRowElement | null {
+  let current = getComposedParent(node);
+  let row: HTMLTableRowElement | null = null;
+
+  while (current) {
+    if (!row && current instanceof HTMLTableRowElement) {
+      row = current;
+    } else if (row && current instanceof HTMLTableElement) {
+      return isDataTable(current) ? row : null;
+    }
+    current = getComposedParent(current);
+  }
+
+  return null;
+}
+
+// Layout tables rarely have headers or captions; data tables do
+function isDataTable(table: HTMLTableElement): boolean {
+  return !!(table.tHead || table.caption || table.querySelector('th'));
+}
+
+// Header row: the last row of <thead>, or a first row made only of <th> cells
+function getHeaderRow(table: HTMLTableElement): HTMLTableRowElement | null {
+  if (table.tHead && table.tHead.rows.length > 0) {
+    return table.tHead.rows[table.tHead.rows.length - 1];
+  }
+
+  const firstRow = table.rows[0];
+  if (firstRow && firstRow.cells.length > 0 && Array.from(firstRow.cells).every((cell) => cell.tagName === 'TH')) {
+    return firstRow;
+  }
+
+  return null;
+}
+
+function cellText(cell: Element): string {
+  return cell.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
+
+// Cell texts by column index, expanding colspans
+function getColumnTexts(row: HTMLTableRowElement): string[] {
+  const columns: string[] = [];
+  for (const cell of Array.from(row.cells)) {
+    const text = cellText(cell);
+    for (let i = 0; i < Math.max(1, cell.colSpan); i++) {
+      columns.push(text);
+    }
+  }
+  return columns;
+}
+
+// Check whether a row only holds column headers
+export function isHeaderRow(row: HTMLTableRowElement): boolean {
+  const table = row.closest('table');
+  return !!table && (getHeaderRow(table) === row || row.parentElement === table.tHead);
+}
+
+// Describe a row as "Caption — Header: value | Header: value"
+export function getRowText(row: HTMLTableRowElement): string {
+  const table = row.closest('table');
+  const headerRow = table ? getHeaderRow(table) : null;
+  const headers = headerRow ? getColumnTexts(headerRow) : [];
+
+  const parts: string[] = [];
+  let column = 0;
+  for (const cell of Array.from(row.cells)) {
+    const text = cellText(cell);
+    const header = headers[column];
+    if (text) {
+      parts.push(header && header !== text ? `${header}: ${text}` : text);
+    }
+    column += Math.max(1, cell.colSpan);
+  }
+
+  const caption = table?.caption ? cellText(table.caption) : '';
+  const rowText = parts.join(' | ');
+  return caption && rowText ? `${caption} — ${rowText}` : rowText;
+}
+
+// Cell whose value an offset into a row's text falls in, with the matching
+// offset into the cell's textContent, or null for the caption and header labels
+export function findRowCell(row: HTMLTableRowElement, offset: number): { cell: HTMLTableCellElement; offset: number } | null {
+  const table = row.closest('table');
+  const headerRow = table ? getHeaderRow(table) : null;
+  const headers = headerRow ? getColumnTexts(headerRow) : [];
+
+  // Laid out as in getRowText
+  const caption = table?.caption ? cellText(table.caption) : '';
+  let position = caption ? caption.length + ' — '.length : 0;
+  let column = 0;
+  for (const cell of Array.from(row.cells)) {
+    const text = cellText(cell);
+    const header = headers[column];
+    column += Math.max(1, cell.colSpan);
+    if (!text) continue;
+
+    const valueStart = position + (header && header !== text ? header.length + ': '.length : 0);
+    if (offset >= valueStart && offset < valueStart + text.length) {
+      return { cell, offset: toContentOffset(cell.textContent || '', offset - valueStart) };
+    }
+    position = valueStart + text.length + ' | '.length;
+  }
+
+  return null;
+}
+
+// Offset into raw text of an offset into its cellText, which trims it and
+// collapses whitespace runs
+function toContentOffset(raw: string, offset: number): number {
+  let count = 0;
+  let inSpace = false;
+  for (let i = raw.length - raw.trimStart().length; i < raw.length; i++) {
+    const space = /\s/.test(raw[i]);
+    if (space && inSpace) continue;
+    if (count === offset) return i;
+    count++;
+    inSpace = space;
+  }
+  return raw.length;
+}
@@ -1,4 +1,12 @@
-import type { TextChunk } from '../shared/types';
+import type { TextChunk, ChunkingMode, BlockType, SiteRule } from '../shared/types';
+import { segmentSentences, segmentWords, type TextSpan } from '../shared/segmenter';
+import { hashString } from '../shared/hash';
+import { collectTextNodes, getComposedParent, composedContains, getComposedOrder, walkComposedTree } from './dom-walker';
+import { getBlockInfo, getCodeBlock, getCodeLanguage, getCodeText, getElementSelector, getHeadingLevel, type SelectorCache } from './structure';
+import { getTableRow, getRowText, isHeaderRow } from './table-extractor';
+import { detectMainContent, getLinkDensity } from './content-detector';
+import { collectAccessibleText, ACCESSIBLE_TEXT_CONTAINERS, type AccessibleText } from './accessible-text';
+import { isHidden, isRevealable } from './reveal';
 
 // Elements to skip when extracting text
 const SKIP_TAGS = new Set([
@@ -15,8 +23,23 @@ const SKIP_PATTERNS = [
   /widget/i, /banner/i, /promo/i, /sponsor/i,
 ];
 
-// Check if element or its ancestors should be skipped
-function shouldSkipElement(element: Element | null): boolean {
+// Class/ID patterns only drop elements made mostly of links and buttons, so
+// prose in e.g. a "comment" or "article-header" class is kept
+const SKIP_LINK_DENSITY = 0.5;
+
+// Below this the detected content root isn't trusted and the whole body is used
+const MIN_CONTENT_CONFIDENCE = 0.3;
+
+// What the skip check needs to know about the current extraction
+interface SkipContext {
+  root: Element;
+  linkDensities: Map<Element, number>;
+  // Site rule override: ignore SKIP_PATTERNS
+  forceInclude: boolean;
+}
+
+// Check if element or its ancestors (up to the content root) should be skipped
+function shouldSkipElement(element: Element | null, context: SkipContext): boolean {
   let current = element;
   let depth = 0;
 
@@ -30,82 +53,231 @@ function shouldSkipElement(element: Element | null): boolean {
       return true;
     }
 
+    // The content root and its ancestors were chosen as content, whatever their names
+    if (current === context.root) break;
+
     // Check class/id against patterns
     const classAndId = `${current.className} ${current.id}`;
-    for (const pattern of SKIP_PATTERNS) {
-      if (pattern.test(classAndId)) return true;
+    if (!context.forceInclude && SKIP_PATTERNS.some((pattern) => pattern.test(classAndId))) {
+      let density = context.linkDensities.get(current);
+      if (density === undefined) {
+        density = getLinkDensity(current);
+        context.linkDensities.set(current, density);
+      }
+      if (density >= SKIP_LINK_DENSITY) return true;
     }
 
-    current = current.parentElement;
+    current = getComposedParent(current);
     depth++;
   }
 
   return false;
 }
 
-// Generate unique ID for chunks
-let chunkIdCounter = 0;
-function generateChunkId(): string {
-  return `chunk-${Date.now()}-${chunkIdCounter++}`;
+// A chunk before it gets its id
+type ChunkDraft = Omit<TextChunk, 'id'>;
+
+// Give chunks ids derived from their normalized text and structural position,
+// so the same chunk gets the same id every time the page is indexed. Chunks
+// that would collide (repeated text in the same place) are numbered in order.
+function assignChunkIds(drafts: ChunkDraft[]): TextChunk[] {
+  const occurrences = new Map<string, number>();
+
+  return drafts.map((draft) => {
+    const key = [
+      draft.text.replace(/\s+/g, ' ').trim(),
+      draft.headingPath?.join('\u0000') ?? '',
+      draft.selector ?? '',
+    ].join('\u0001');
+
+    const hash = hashString(key);
+    const occurrence = (occurrences.get(hash) || 0) + 1;
+    occurrences.set(hash, occurrence);
+
+    return { id: occurrence > 1 ? `chunk-${hash}-${occurrence}` : `chunk-${hash}`, ...draft };
+  });
 }
 
-interface TextNode {
+export interface TextNode {
   text: string;
   node: Node;
   startOffset: number;
+  // Where the text sits in the page structure
+  blockType?: BlockType;
+  selector?: string;
+  headingPath?: string[];
+  language?: string;
+  page?: number;
+}
+
+// Language of the page, from its lang attribute
+export function getPageLocale(): string | undefined {
+  return document.documentElement.lang || undefined;
+}
+
+export interface ExtractOptions {
+  // Also index alt text, aria-labels, titles, figure captions and form labels
+  accessibleText?: boolean;
+  // Content root found by an earlier extraction, to skip detecting it again
+  contentRoot?: Element;
+  // Only extract this subtree of the content root
+  within?: Element;
+  // Also index text in collapsed sections (closed <details>, inactive tabs,
+  // accordions) that can be revealed when navigated to
+  includeHidden?: boolean;
 }
 
-// Extract visible text from the page
-export function extractPageText(): TextNode[] {
+// Extract visible text from the page, applying the site's rule (if any)
+// before the built-in heuristics
+export function extractPageText(rule?: SiteRule, options: ExtractOptions = {}): TextNode[] {
   const textNodes: TextNode[] = [];
+  const searchRoot = options.contentRoot ?? findContentRoot(rule);
+  const walkRoot = options.within ?? searchRoot;
+  const context: SkipContext = {
+    root: searchRoot,
+    linkDensities: new Map(),
+    forceInclude: rule?.forceInclude ?? false,
+  };
+
+  const exclude = validSelectors(rule?.exclude || []).join(', ');
+  const isExcluded = (element: Element) => {
+    if (exclude && element.matches(exclude)) return true;
+    // Captions and labels are indexed as accessible text when that is enabled
+    return !!options.accessibleText && element.matches(ACCESSIBLE_TEXT_CONTAINERS);
+  };
+
+  // Walk the composed tree so text inside web components is included
+  const nodes = collectTextNodes(walkRoot, (node) => {
+    const parent = getComposedParent(node);
+    if (!parent) return false;
+
+    // Skip hidden elements, unless they can be revealed and that was asked for
+    if (isHidden(parent) && !(options.includeHidden && isRevealable(parent))) {
+      return false;
+    }
 
-  // Try to find main content area first
-  const mainContent = document.querySelector('main, article, [role="main"], .content, .post, .entry, #content, #main, .mw-body-content');
-  const searchRoot = mainContent || document.body;
+    // Skip non-content elements
+    if (shouldSkipElement(parent, context)) {
+      return false;
+    }
 
-  console.log('[SemanticFind] Extracting text from:', mainContent ? 'main content area' : 'full body');
+    // Skip empty text
+    const text = node.textContent?.trim();
+    if (!text) return false;
 
-  const walker = document.createTreeWalker(
-    searchRoot,
-    NodeFilter.SHOW_TEXT,
-    {
-      acceptNode: (node) => {
-        const parent = node.parentElement;
-        if (!parent) return NodeFilter.FILTER_REJECT;
+    // Skip very short text (likely buttons, labels), but keep short table cells
+    // and code tokens
+    if (text.length < 3 && !getTableRow(node) && !getCodeBlock(node)) return false;
 
-        // Skip hidden elements
-        const style = window.getComputedStyle(parent);
-        if (style.display === 'none' || style.visibility === 'hidden') {
-          return NodeFilter.FILTER_REJECT;
-        }
+    return true;
+  }, isExcluded);
 
-        // Skip non-content elements
-        if (shouldSkipElement(parent)) {
-          return NodeFilter.FILTER_REJECT;
-        }
+  const accessible = options.accessibleText
+    ? collectAccessibleText(walkRoot, (element) => {
+      if (isHidden(element) && !(options.includeHidden && isRevealable(element))) return false;
+      if (exclude && element.closest(exclude)) return false;
+      return !shouldSkipElement(element, context);
+    }, walkRoot !== searchRoot)
+    : [];
 
-        // Skip empty text
-        const text = node.textContent?.trim();
-        if (!text) return NodeFilter.FILTER_REJECT;
+  let currentOffset = 0;
 
-        // Skip very short text (likely buttons, labels)
-        if (text.length < 3) return NodeFilter.FILTER_REJECT;
+  // Headings seen so far, indexed by level - 1
+  const headingStack = options.within ? getHeadingStackBefore(searchRoot, options.within) : [];
+  let headingPath = headingStack.filter(Boolean);
+  let lastHeading: Element | null = null;
+  const selectors = new Map<Element, string>();
+  const selectorSteps: SelectorCache = new WeakMap();
+  const seenBlocks = new Set<Element>();
+
+  for (const node of mergeInRenderingOrder(walkRoot, nodes, accessible)) {
+    // Attribute text has no text node; the element that owns it stands in
+    if (!(node instanceof Text)) {
+      textNodes.push({
+        text: node.text,
+        node: node.owner,
+        startOffset: currentOffset,
+        blockType: 'accessible',
+        selector: getElementSelector(node.owner, selectorSteps),
+        headingPath,
+      });
+      currentOffset += node.text.length + 1;
+      continue;
+    }
 
-        return NodeFilter.FILTER_ACCEPT;
-      },
+    // Data table rows become a single labelled text node each
+    const row = getTableRow(node);
+    if (row) {
+      if (seenBlocks.has(row)) continue;
+      seenBlocks.add(row);
+      if (isHeaderRow(row)) continue;
+
+      const rowText = getRowText(row);
+      if (rowText) {
+        textNodes.push({
+          text: rowText,
+          node: row,
+          startOffset: currentOffset,
+          blockType: 'table-row',
+          selector: getElementSelector(row, selectorSteps),
+          headingPath,
+        });
+        currentOffset += rowText.length + 1;
+      }
+      continue;
     }
-  );
 
-  let currentOffset = 0;
-  let node: Node | null;
+    // Code blocks are kept whole, whitespace and all, instead of node by node
+    const pre = getCodeBlock(node);
+    if (pre) {
+      if (seenBlocks.has(pre)) continue;
+      seenBlocks.add(pre);
+
+      const code = getCodeText(pre);
+      if (code.trim()) {
+        textNodes.push({
+          text: code,
+          node: pre,
+          startOffset: currentOffset,
+          blockType: 'code',
+          selector: getElementSelector(pre, selectorSteps),
+          headingPath,
+          language: getCodeLanguage(pre),
+        });
+        currentOffset += code.length + 1;
+      }
+      continue;
+    }
 
-  while ((node = walker.nextNode())) {
     const text = node.textContent?.trim() || '';
     if (text) {
+      const block = getBlockInfo(node);
+
+      // Entering a new heading starts a new section below its level
+      const level = block ? getHeadingLevel(block.element) : 0;
+      if (block && level > 0 && block.element !== lastHeading) {
+        headingStack.length = Math.min(headingStack.length, level - 1);
+        headingStack[level - 1] = block.element.textContent?.replace(/\s+/g, ' ').trim() || '';
+        headingPath = headingStack.filter(Boolean);
+        lastHeading = block.element;
+      }
+
+      let selector: string | undefined;
+      if (block) {
+        selector = selectors.get(block.element);
+        if (selector === undefined) {
+          selector = getElementSelector(block.element, selectorSteps);
+          selectors.set(block.element, selector);
+        }
+      }
+
       textNodes.push({
         text,
         node,
         startOffset: currentOffset,
+        blockType: block?.blockType,
+        selector,
+        headingPath,
       });
       currentOffset += text.length + 1; // +1 for space between nodes
     }
@@ -114,23 +286,325 @@ export function extractPageText(): TextNode[] {
   return textNodes;
 }
 
-// Chunk text into segments of approximately targetSize characters
-export function chunkText(textNodes: TextNode[], targetSize: number = 200): TextChunk[] {
-  const chunks: TextChunk[] = [];
+// Headings (by level) in effect where a subtree starts, for extracting it on
+// its own. Walks the composed tree, so headings and subtrees inside shadow
+// roots are taken in rendering order
+function getHeadingStackBefore(root: Element, within: Element): string[] {
+  const stack: string[] = [];
+  let reached = false;
+  walkComposedTree(root, (node) => {
+    if (reached || node === within) {
+      reached = true;
+      return false;
+    }
+    if (!(node instanceof Element)) return false;
+
+    const level = getHeadingLevel(node);
+    if (level === 0) return true;
+    if (composedContains(node, within)) {
+      reached = true;
+      return false;
+    }
+    stack.length = Math.min(stack.length, level - 1);
+    stack[level - 1] = node.textContent?.replace(/\s+/g, ' ').trim() || '';
+    return false;
+  });
+  return stack;
+}
+
+// Re-extract only the subtrees that changed and splice them into the page's
+// existing text nodes, keeping document order and renumbering offsets
+export function updateTextNodes(
+  textNodes: TextNode[],
+  changed: Element[],
+  rule: SiteRule | undefined,
+  options: ExtractOptions & { contentRoot: Element }
+): TextNode[] {
+  const root = options.contentRoot;
+
+  // Table rows and code blocks are extracted whole, so a change inside one
+  // re-extracts all of it; a change around the content root re-extracts the
+  // root. Containment counts shadow roots as part of their hosts
+  const subtrees = changed
+    .filter((element) => element.isConnected)
+    .map((element) => (composedContains(element, root) ? root : getCodeBlock(element) ?? getTableRow(element) ?? element))
+    .filter((element) => composedContains(root, element));
+  const outermost = subtrees.filter((element) => !subtrees.some((other) => other !== element && composedContains(other, element)));
+
+  if (outermost.includes(root)) {
+    return extractPageText(rule, options);
+  }
+
+  const inChangedSubtree = (textNode: TextNode) => outermost.some((element) => composedContains(element, textNode.node));
+  const removed = new Set(textNodes.filter((textNode) => !textNode.node.isConnected || inChangedSubtree(textNode)));
+  const added = outermost.flatMap((within) => extractPageText(rule, { ...options, within }));
+
+  // Heading trails of everything after a changed heading are stale
+  if ([...removed, ...added].some((textNode) => textNode.blockType === 'heading')) {
+    return extractPageText(rule, options);
+  }
+
+  // Sorted in rendering order, which document order isn't across shadow trees
+  const order = getComposedOrder(root);
+  const position = (textNode: TextNode) => order.get(textNode.node) ?? order.size;
+
+  let offset = 0;
+  return textNodes
+    .filter((textNode) => !removed.has(textNode))
+    .concat(added)
+    .sort((a, b) => position(a) - position(b))
+    .map((textNode) => {
+      const renumbered = { ...textNode, startOffset: offset };
+      offset += textNode.text.length + 1;
+      return renumbered;
+    });
+}
+
+// Interleave accessible text with the page's text nodes, both already in
+// rendering order under root
+function mergeInRenderingOrder(root: Element, nodes: Text[], accessible: AccessibleText[]): (Text | AccessibleText)[] {
+  if (accessible.length === 0) return nodes;
+
+  // Document order doesn't compare nodes in different shadow trees
+  const order = getComposedOrder(root);
+  const position = (node: Node) => order.get(node) ?? order.size;
+
+  const merged: (Text | AccessibleText)[] = [];
+  let next = 0;
+  for (const node of nodes) {
+    while (next < accessible.length && position(accessible[next].source) < position(node)) {
+      merged.push(accessible[next++]);
+    }
+    merged.push(node);
+  }
+  return merged.concat(accessible.slice(next));
+}
+
+// Element to extract from: the site rule's content root when it matches,
+// otherwise the detected main content (or the whole body if detection is unsure)
+export function findContentRoot(rule?: SiteRule): Element {
+  const contentRoot = rule?.contentRoot;
+  const [selector] = validSelectors(contentRoot ? [contentRoot] : []);
+  const ruleRoot = selector ? document.querySelector(selector) : null;
+  if (ruleRoot) {
+    console.log('[SemanticFind] Content root from site rule:', selector);
+    return ruleRoot;
+  }
+  if (contentRoot) {
+    console.warn('[SemanticFind] Site rule content root not found:', contentRoot);
+  }
+
+  // Score the page's containers to find the main content area
+  const detection = detectMainContent();
+  const root = detection.confidence >= MIN_CONTENT_CONFIDENCE ? detection.root : document.body;
+
+  console.log(
+    '[SemanticFind] Content root:', getElementSelector(detection.root),
+    `(score ${detection.score}, confidence ${detection.confidence})`,
+    root === detection.root ? '' : '- below threshold, extracting from full body'
+  );
+
+  return root;
+}
+
+// Drop selectors the browser can't parse, so one typo doesn't break extraction
+function validSelectors(selectors: string[]): string[] {
+  return selectors.filter((selector) => {
+    try {
+      document.createDocumentFragment().querySelector(selector);
+      return selector.trim().length > 0;
+    } catch {
+      console.warn('[SemanticFind] Ignoring invalid selector in site rule:', selector);
+      return false;
+    }
+  });
+}
+
+export interface ChunkOptions {
+  mode?: ChunkingMode;
+  overlap?: number;
+  // BCP 47 language of the text, used to find sentence and word boundaries
+  locale?: string;
+  // Size of a piece of text in the unit targetSize is given in; defaults to
+  // characters. Must be additive: the size of joined text is the sum of its parts.
+  measure?: (text: string) => number;
+  // Size of what is embedded in front of each chunk of a section (its heading
+  // trail), which the section's chunks leave room for
+  prefixSize?: (headingPath: string[]) => number;
+  // Size no chunk may exceed, e.g. the model's window. Table rows, labels and
+  // code lines are otherwise kept whole, and past it they are split at words
+  maxSize?: number;
+}
+
+// A long heading trail can't take more than this share of a chunk's budget
+const MAX_PREFIX_SHARE = 0.75;
+
+// A span of the joined page text, in extraction offsets
+type Segment = TextSpan;
+
+// Size of a run of segments, from the first segment's start to the last one's end
+type SpanSize = (first: Segment, last: Segment) => number;
+
+// Chunk text into segments of approximately targetSize (characters unless a measure is given)
+export function chunkText(textNodes: TextNode[], targetSize: number = 200, options: ChunkOptions = {}): TextChunk[] {
+  // Chunks never span two sections (or PDF pages), so each one has a single heading trail
+  const drafts = splitIntoSections(textNodes).flatMap((section) => {
+    const prefix = Math.min(options.prefixSize?.(section[0].headingPath ?? []) ?? 0, targetSize * MAX_PREFIX_SHARE);
+    const budget = targetSize - prefix;
+    const maxSize = options.maxSize === undefined ? undefined : Math.max(budget, options.maxSize - prefix);
+
+    return splitOutBlocks(section).flatMap((run) => {
+      let chunks: ChunkDraft[];
+      if (run[0].blockType === 'table-row' || run[0].blockType === 'accessible') {
+        chunks = [chunkWhole(run[0])];
+      } else if (run[0].blockType === 'code') {
+        chunks = chunkCode(run[0], budget, options.measure);
+      } else if (options.mode === 'sentence') {
+        chunks = chunkBySentence(run, budget, options.overlap || 0, options.locale, options.measure);
+      } else {
+        chunks = chunkByNode(run, budget, options.measure);
+      }
+      if (maxSize !== undefined) {
+        chunks = chunks.flatMap((chunk) => fitChunk(chunk, maxSize, options.locale, options.measure));
+      }
+      return chunks.map((chunk) => withStructure(chunk, run));
+    });
+  });
+
+  return assignChunkIds(drafts);
+}
+
+// Separate table rows, code blocks and accessible text from the prose around
+// them; each one is a run of its own
+function splitOutBlocks(section: TextNode[]): TextNode[][] {
+  const runs: TextNode[][] = [];
+  let prose: TextNode[] = [];
+
+  for (const textNode of section) {
+    if (textNode.blockType === 'table-row' || textNode.blockType === 'code' || textNode.blockType === 'accessible') {
+      if (prose.length > 0) runs.push(prose);
+      runs.push([textNode]);
+      prose = [];
+    } else {
+      prose.push(textNode);
+    }
+  }
+
+  if (prose.length > 0) runs.push(prose);
+  return runs;
+}
+
+// A table row or accessible label is always one chunk, whatever its size,
+// so a row keeps its headers and a label stays tied to its element
+function chunkWhole({ text, startOffset }: TextNode): ChunkDraft {
+  return {
+    text,
+    startOffset,
+    endOffset: startOffset + text.length,
+  };
+}
+
+// Split a chunk larger than maxSize at word boundaries, so the model sees all of it
+function fitChunk(chunk: ChunkDraft, maxSize: number, locale?: string, measure?: (text: string) => number): ChunkDraft[] {
+  const { text, startOffset } = chunk;
+  const pieces = splitLongSegment(text, { start: 0, end: text.length }, maxSize, createSpanSize(text, measure), locale);
+  if (pieces.length <= 1) return [chunk];
+
+  return pieces.map(({ start, end }) => ({
+    text: text.slice(start, end),
+    startOffset: startOffset + start,
+    endOffset: startOffset + end,
+  }));
+}
+
+// Group consecutive text nodes that share a heading trail and page
+function splitIntoSections(textNodes: TextNode[]): TextNode[][] {
+  const sections: TextNode[][] = [];
+  let lastKey: string | null = null;
+
+  for (const textNode of textNodes) {
+    const key = [textNode.page ?? '', ...(textNode.headingPath ?? [])].join('\u0000');
+    if (key !== lastKey) {
+      sections.push([]);
+      lastKey = key;
+    }
+    sections[sections.length - 1].push(textNode);
+  }
+
+  return sections;
+}
+
+// Pack whole lines of a code block together until targetSize is reached;
+// a single line longer than that is left intact rather than cut mid-line
+function chunkCode({ text, startOffset }: TextNode, targetSize: number, measure?: (text: string) => number): ChunkDraft[] {
+  const size = (piece: string) => (measure ? measure(piece) : piece.length);
+  const chunks: ChunkDraft[] = [];
+
+  const emit = (start: number, end: number) => {
+    const piece = text.slice(start, end).replace(/\s+$/, '');
+    if (!piece.trim()) return;
+    chunks.push({
+      text: piece,
+      startOffset: startOffset + start,
+      endOffset: startOffset + start + piece.length,
+    });
+  };
+
+  let pieceStart = 0;
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline + 1;
+
+    if (lineStart > pieceStart && size(text.slice(pieceStart, lineEnd).trimEnd()) > targetSize) {
+      emit(pieceStart, lineStart);
+      pieceStart = lineStart;
+    }
+    lineStart = lineEnd;
+  }
+  emit(pieceStart, text.length);
+
+  return chunks;
+}
+
+// Copy structural metadata from the text node a chunk starts in
+function withStructure(chunk: ChunkDraft, section: TextNode[]): ChunkDraft {
+  let first = section[0];
+  for (const textNode of section) {
+    if (textNode.startOffset > chunk.startOffset) break;
+    first = textNode;
+  }
+
+  return {
+    ...chunk,
+    ...(first.headingPath?.length ? { headingPath: first.headingPath } : {}),
+    ...(first.blockType ? { blockType: first.blockType } : {}),
+    ...(first.selector ? { selector: first.selector } : {}),
+    ...(first.language ? { language: first.language } : {}),
+    ...(first.page ? { page: first.page } : {}),
+  };
+}
+
+// Pack whole text nodes together until targetSize is reached
+function chunkByNode(textNodes: TextNode[], targetSize: number, measure?: (text: string) => number): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
   let currentChunkText = '';
+  let currentChunkSize = 0;
   let currentChunkStart = 0;
   let lastOffset = 0;
 
   for (const { text, startOffset } of textNodes) {
+    const size = measure ? measure(text) : text.length;
+
     // If adding this text would exceed target size and we have content, finalize chunk
-    if (currentChunkText.length > 0 && currentChunkText.length + text.length > targetSize) {
+    if (currentChunkText.length > 0 && currentChunkSize + size > targetSize) {
       chunks.push({
-        id: generateChunkId(),
         text: currentChunkText.trim(),
         startOffset: currentChunkStart,
         endOffset: lastOffset,
       });
       currentChunkText = '';
+      currentChunkSize = 0;
       currentChunkStart = startOffset;
     }
 
@@ -139,14 +613,16 @@ export function chunkText(textNodes: TextNode[], targetSize: number = 200): Text
       currentChunkStart = startOffset;
     }
 
+    // Without a measure the joining space counts towards the size
+    if (!measure && currentChunkText.length > 0) currentChunkSize++;
     currentChunkText += (currentChunkText.length > 0 ? ' ' : '') + text;
+    currentChunkSize += size;
     lastOffset = startOffset + text.length;
   }
 
   // Don't forget the last chunk
   if (currentChunkText.trim().length > 0) {
     chunks.push({
-      id: generateChunkId(),
       text: currentChunkText.trim(),
       startOffset: currentChunkStart,
       endOffset: lastOffset,
@@ -156,17 +632,121 @@ export function chunkText(textNodes: TextNode[], targetSize: number = 200): Text
   return chunks;
 }
 
+// Pack whole sentences together until targetSize is reached, carrying the
+// trailing sentences of each chunk that fit in `overlap` into the next one.
+// Overlap is in the same unit as targetSize (characters unless a measure is given)
+function chunkBySentence(
+  textNodes: TextNode[],
+  targetSize: number,
+  overlap: number,
+  locale?: string,
+  measure?: (text: string) => number
+): ChunkDraft[] {
+  const fullText = joinTextNodes(textNodes);
+  const spanSize = createSpanSize(fullText, measure);
+  const segments = segmentSentences(fullText, locale)
+    .flatMap((sentence) => splitLongSegment(fullText, sentence, targetSize, spanSize, locale));
+
+  // Overlap must leave room for new content in every chunk
+  const maxOverlap = Math.min(overlap, Math.floor(targetSize / 2));
+
+  const chunks: ChunkDraft[] = [];
+  let current: Segment[] = [];
+
+  const emit = () => {
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    chunks.push({
+      text: fullText.slice(start, end),
+      startOffset: start,
+      endOffset: end,
+    });
+  };
+
+  for (const segment of segments) {
+    if (current.length > 0 && spanSize(current[0], segment) > targetSize) {
+      emit();
+
+      // Keep trailing sentences that fit in the overlap window
+      const last = current[current.length - 1];
+      let keepFrom = current.length;
+      while (keepFrom > 1 && spanSize(current[keepFrom - 1], last) <= maxOverlap) {
+        keepFrom--;
+      }
+      current = current.slice(keepFrom);
+
+      // Drop overlap that would push the next sentence past the target size
+      while (current.length > 0 && spanSize(current[0], segment) > targetSize) {
+        current.shift();
+      }
+    }
+
+    current.push(segment);
+  }
+
+  if (current.length > 0) {
+    emit();
+  }
+
+  return chunks;
+}
+
+// Characters between two segments, or the measured size of the text in between
+function createSpanSize(fullText: string, measure?: (text: string) => number): SpanSize {
+  if (!measure) {
+    return (first, last) => last.end - first.start;
+  }
+  return (first, last) => measure(fullText.slice(first.start, last.end));
+}
+
+// Lay text nodes out at their offsets, separated by spaces
+function joinTextNodes(textNodes: TextNode[]): string {
+  let fullText = '';
+  for (const { text, startOffset } of textNodes) {
+    if (startOffset > fullText.length) {
+      fullText += ' '.repeat(startOffset - fullText.length);
+    } else if (fullText.length > 0) {
+      fullText += ' ';
+    }
+    fullText += text;
+  }
+  return fullText;
+}
+
+// Break a sentence longer than maxSize at word boundaries
+function splitLongSegment(
+  text: string,
+  segment: Segment,
+  maxSize: number,
+  spanSize: SpanSize,
+  locale?: string
+): Segment[] {
+  if (spanSize(segment, segment) <= maxSize) {
+    return [segment];
+  }
+
+  const words = segmentWords(text.slice(segment.start, segment.end), locale)
+    .map((word) => ({ start: segment.start + word.start, end: segment.start + word.end }));
+
+  const pieces: Segment[] = [];
+  for (const word of words) {
+    const last = pieces[pieces.length - 1];
+    if (last && spanSize(last, word) <= maxSize) {
+      last.end = word.end;
+    } else {
+      pieces.push({ ...word });
+    }
+  }
+
+  return pieces;
+}
+
 // Find the DOM range for a given text chunk
 export function findChunkInDOM(chunkText: string): Range | null {
   const searchText = chunkText.slice(0, 50); // Use first 50 chars for search
-  const walker = document.createTreeWalker(
-    document.body,
-    NodeFilter.SHOW_TEXT,
-    null
-  );
+  const nodes = collectTextNodes(document.body, () => true);
 
-  let node: Node | null;
-  while ((node = walker.nextNode())) {
+  for (const node of nodes) {
     const nodeText = node.textContent || '';
     const index = nodeText.indexOf(searchText);
     if (index !== -1) {
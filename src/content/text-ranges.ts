@@ -0,0 +1,70 @@
+import type { TextNode } from './text-chunker';
+
+// Chunk offsets index into the extracted text nodes laid out one after
+// another. Mapping them back through the text nodes they came from gives the
+// exact ranges of a chunk, repeated passages included, without searching the
+// page's text again.
+
+// Ranges covering [start, end) of the extracted text, one per DOM text node,
+// or null when that text isn't read verbatim from text nodes (table rows,
+// code blocks, attribute text) or the page changed since it was extracted
+export function mapToRanges(textNodes: TextNode[], start: number, end: number): Range[] | null {
+  const ranges: Range[] = [];
+
+  for (let i = findTextNodeAt(textNodes, start); i < textNodes.length; i++) {
+    const textNode = textNodes[i];
+    if (textNode.startOffset >= end) break;
+
+    const from = Math.max(0, start - textNode.startOffset);
+    const to = Math.min(end - textNode.startOffset, textNode.text.length);
+    if (from >= to) continue;
+
+    const { node } = textNode;
+    if (!(node instanceof Text) || !node.isConnected || node.data.trim() !== textNode.text) {
+      return null;
+    }
+
+    // Extracted text is trimmed, so offsets start after any leading whitespace
+    const leading = node.data.length - node.data.trimStart().length;
+    const range = document.createRange();
+    range.setStart(node, leading + from);
+    range.setEnd(node, leading + to);
+    ranges.push(range);
+  }
+
+  return ranges.length > 0 ? ranges : null;
+}
+
+// Element extracted text at an offset was read from as a whole (a table
+// row, code block or element with attribute text), with the offset into that
+// element's extracted text, or null for text read from text nodes or no
+// longer on the page. Unlike a chunk's selector it needs no lookup, so blocks
+// inside shadow roots resolve to themselves
+export function findBlock(textNodes: TextNode[], offset: number): { element: Element; offset: number } | null {
+  const textNode = textNodes[findTextNodeAt(textNodes, offset)];
+  if (!textNode || offset < textNode.startOffset || offset >= textNode.startOffset + textNode.text.length) {
+    return null;
+  }
+
+  const { node } = textNode;
+  return node instanceof Element && node.isConnected ? { element: node, offset: offset - textNode.startOffset } : null;
+}
+
+// Index of the last text node starting at or before an offset
+function findTextNodeAt(textNodes: TextNode[], offset: number): number {
+  let low = 0;
+  let high = textNodes.length - 1;
+  let found = 0;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (textNodes[mid].startOffset <= offset) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
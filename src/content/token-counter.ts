@@ -0,0 +1,85 @@
+import type { Settings, TextChunk } from '../shared/types';
+import type { CountTokensResponse } from '../shared/messages';
+import { segmentWords } from '../shared/segmenter';
+import { getHeadingPrefix } from '../shared/embedding-text';
+import { chunkText, type ChunkOptions, type TextNode } from './text-chunker';
+
+// BERT-style tokenizers split on whitespace and punctuation before WordPiece
+// runs, so the token count of a text is the sum of the counts of its words
+function splitWords(text: string, locale?: string): string[] {
+  return segmentWords(text, locale).map(({ start, end }) => text.slice(start, end));
+}
+
+// [CLS] and [SEP] are added around every input
+const SPECIAL_TOKENS = 2;
+
+export interface TokenMeasure {
+  measure: (text: string) => number;
+  // Largest text, in tokens, the model embeds without truncation
+  maxTokens: number;
+}
+
+// Build a token counter for the given texts using the embedding model's tokenizer
+export async function createTokenMeasure(texts: string[], locale?: string): Promise<TokenMeasure | null> {
+  const uniqueWords = new Set<string>();
+  for (const text of texts) {
+    for (const word of splitWords(text, locale)) {
+      uniqueWords.add(word);
+    }
+  }
+
+  const words = Array.from(uniqueWords);
+  const response = await chrome.runtime.sendMessage({
+    type: 'COUNT_TOKENS',
+    texts: words,
+  }) as CountTokensResponse;
+
+  if (!response.success || !response.counts) {
+    console.error('[SemanticFind] Failed to count tokens:', response.error);
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  words.forEach((word, i) => counts.set(word, response.counts![i]));
+
+  return {
+    measure: (text) => {
+      let total = 0;
+      for (const word of splitWords(text, locale)) {
+        // Rough estimate for words that weren't counted up front
+        total += counts.get(word) ?? Math.ceil(word.length / 4);
+      }
+      return total;
+    },
+    maxTokens: (response.maxTokens || 256) - SPECIAL_TOKENS,
+  };
+}
+
+// Chunk text nodes according to the settings; chunk size and overlap are
+// both counted in the chosen unit
+export async function chunkWithSettings(textNodes: TextNode[], settings: Settings | null, locale?: string): Promise<TextChunk[]> {
+  let chunkSize = settings?.chunkSize || 200;
+  const chunkOptions: ChunkOptions = {
+    mode: settings?.chunkingMode,
+    overlap: settings?.chunkOverlap,
+    locale,
+  };
+
+  // Budget chunks in model tokens so nothing is truncated at embedding time:
+  // the heading trail embedded in front of each chunk comes out of its budget,
+  // and rows, labels and code lines too long for the window are split
+  if (settings?.chunkSizeUnit === 'tokens') {
+    const headings = new Set(textNodes.map((n) => getHeadingPrefix(n.headingPath)));
+    const tokens = await createTokenMeasure([...textNodes.map((n) => n.text), ...headings], locale);
+    if (tokens) {
+      chunkOptions.measure = tokens.measure;
+      chunkOptions.prefixSize = (headingPath) => tokens.measure(getHeadingPrefix(headingPath));
+      chunkOptions.maxSize = tokens.maxTokens;
+      chunkSize = Math.min(settings.chunkTokenLimit, tokens.maxTokens);
+    } else {
+      console.warn('[SemanticFind] Tokenizer unavailable, sizing chunks by characters');
+    }
+  }
+
+  return chunkText(textNodes, chunkSize, chunkOptions);
+}
@@ -3,6 +3,7 @@
 
 import { pipeline, env, type FeatureExtractionPipeline } from '@xenova/transformers';
 import { CreateMLCEngine, type MLCEngine } from '@mlc-ai/web-llm';
+import { segmentWords, segmentSentences } from '../shared/segmenter';
 
 // Configure transformers.js for Chrome extension environment
 env.allowLocalModels = false;
@@ -12,6 +13,8 @@ env.useBrowserCache = true;
 env.backends.onnx.wasm.numThreads = 1;
 
 const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+// all-MiniLM-L6-v2 was trained on 256-token sequences; anything longer is truncated
+const EMBEDDING_MAX_TOKENS = 256;
 const LLM_MODEL = 'SmolLM2-360M-Instruct-q4f16_1-MLC';
 
 let embeddingPipeline: FeatureExtractionPipeline | null = null;
@@ -95,12 +98,48 @@ async function generateEmbedding(text: string): Promise<number[] | null> {
   }
 }
 
+// Largest input, special tokens included, the model embeds without truncation
+function getMaxTokens(): number {
+  const modelMax = embeddingPipeline?.tokenizer.model_max_length;
+  return modelMax ? Math.min(modelMax, EMBEDDING_MAX_TOKENS) : EMBEDDING_MAX_TOKENS;
+}
+
+// Count tokens per text using the model's own tokenizer, without special tokens
+async function countTokens(texts: string[]): Promise<number[] | null> {
+  if (!embeddingPipeline) {
+    const loaded = await loadModel();
+    if (!loaded) return null;
+  }
+
+  try {
+    return texts.map((text) =>
+      embeddingPipeline!.tokenizer.encode(text, null, { add_special_tokens: false }).length
+    );
+  } catch (error) {
+    console.error('[Offscreen] Tokenizer error:', error);
+    return null;
+  }
+}
+
+// Warn about texts the model will silently truncate
+function warnOnOverflow(texts: string[]): void {
+  const maxTokens = getMaxTokens();
+  texts.forEach((text, i) => {
+    const tokens = embeddingPipeline!.tokenizer.encode(text).length;
+    if (tokens > maxTokens) {
+      console.warn(`[Offscreen] Text ${i} has ${tokens} tokens, over the ${maxTokens}-token model window:`, text.substring(0, 100));
+    }
+  });
+}
+
 async function generateEmbeddings(texts: string[]): Promise<(number[] | null)[]> {
   if (!embeddingPipeline) {
     const loaded = await loadModel();
     if (!loaded) return texts.map(() => null);
   }
 
+  warnOnOverflow(texts);
+
   const results: (number[] | null)[] = [];
   const batchSize = 32;
 
@@ -190,7 +229,7 @@ async function loadLLM(): Promise<boolean> {
   }
 }
 
-async function generateSummary(query: string, topResults: { text: string; score: number }[]): Promise<string | null> {
+async function generateSummary(query: string, topResults: { text: string; score: number }[], locale?: string): Promise<string | null> {
   if (!llmEngine) {
     const loaded = await loadLLM();
     if (!loaded) return null;
@@ -237,7 +276,7 @@ Answer in 1-2 sentences:`;
 
     // Post-process to remove any obvious repetition
     if (result) {
-      const cleaned = removeRepetition(result);
+      const cleaned = removeRepetition(result, locale);
       console.log('[Offscreen] Cleaned result:', cleaned);
       return cleaned;
     }
@@ -250,35 +289,40 @@ Answer in 1-2 sentences:`;
 }
 
 // Remove repetitive phrases from output
-function removeRepetition(text: string): string {
-  // Split into words
-  const words = text.split(/\s+/);
+function removeRepetition(text: string, locale?: string): string {
+  // Split into words; punctuation stays attached to the word before it
+  const words = segmentWords(text, locale).filter((word) => word.isWordLike);
   if (words.length < 4) return text;
 
   // Detect repeated phrases (3+ words repeating)
-  const result: string[] = [];
+  const lowerWords = words.map(({ start, end }) => text.slice(start, end).toLowerCase());
+  let result = text.slice(0, words[0].start);
   const seen = new Set<string>();
 
   for (let i = 0; i < words.length; i++) {
+    const nextStart = i + 1 < words.length ? words[i + 1].start : text.length;
+
     // Check for 3-word phrase repetition
     if (i >= 2) {
-      const phrase = words.slice(i - 2, i + 1).join(' ').toLowerCase();
+      const phrase = lowerWords.slice(i - 2, i + 1).join(' ');
       if (seen.has(phrase)) {
         // Skip this word, we're in a repetition loop
         continue;
       }
       seen.add(phrase);
     }
-    result.push(words[i]);
+
+    // Keep the word together with the punctuation and spacing that follow it
+    result += text.slice(words[i].start, nextStart);
   }
 
   // Also check if the result itself is very short or seems cut off
-  const cleaned = result.join(' ').trim();
+  const cleaned = result.trim();
 
   // If we removed too much, return first sentence of original
   if (cleaned.length < 20 && text.length > 50) {
-    const firstSentence = text.match(/^[^.!?]+[.!?]/);
-    return firstSentence ? firstSentence[0].trim() : text.substring(0, 100).trim();
+    const [firstSentence] = segmentSentences(text, locale);
+    return firstSentence ? text.slice(firstSentence.start, firstSentence.end) : text.substring(0, 100).trim();
   }
 
   return cleaned;
@@ -305,6 +349,11 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         sendResponse({ embeddings });
         break;
       }
+      case 'COUNT_TOKENS': {
+        const counts = await countTokens(message.texts);
+        sendResponse({ counts, maxTokens: getMaxTokens() });
+        break;
+      }
       case 'GET_STATUS': {
         sendResponse({
           status: embeddingPipeline ? 'ready' : isLoading ? 'loading' : 'idle',
@@ -326,7 +375,7 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         break;
       }
       case 'GENERATE_SUMMARY': {
-        const summary = await generateSummary(message.query, message.topResults);
+        const summary = await generateSummary(message.query, message.topResults, message.locale);
         sendResponse({ success: !!summary, summary });
         break;
       }
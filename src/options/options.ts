@@ -0,0 +1,128 @@
+import type { Settings, SiteRule } from '../shared/types';
+import type { GetSettingsResponse } from '../shared/messages';
+
+// DOM Elements
+const addRuleForm = document.getElementById('add-rule-form') as HTMLFormElement;
+const newOriginInput = document.getElementById('new-origin') as HTMLInputElement;
+const addRuleError = document.getElementById('add-rule-error') as HTMLParagraphElement;
+const emptyState = document.getElementById('empty-state') as HTMLParagraphElement;
+const ruleList = document.getElementById('rule-list') as HTMLDivElement;
+const ruleTemplate = document.getElementById('rule-template') as HTMLTemplateElement;
+
+let siteRules: Settings['siteRules'] = {};
+
+// Load settings
+async function loadRules(): Promise<void> {
+  const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' }) as GetSettingsResponse;
+  siteRules = response.settings.siteRules || {};
+  renderRules();
+}
+
+// Save all rules; the service worker merges them into the stored settings
+async function saveRules(): Promise<void> {
+  await chrome.runtime.sendMessage({ type: 'UPDATE_SETTINGS', settings: { siteRules } });
+}
+
+// Origin of a URL the user typed, or null if it isn't a web page
+function parseOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.includes('://') ? value : `https://${value}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// First selector the browser can't parse, if any
+function findInvalidSelector(selectors: string[]): string | null {
+  for (const selector of selectors) {
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch {
+      return selector;
+    }
+  }
+  return null;
+}
+
+function renderRules(): void {
+  ruleList.replaceChildren();
+
+  const origins = Object.keys(siteRules).sort();
+  emptyState.classList.toggle('hidden', origins.length > 0);
+
+  for (const origin of origins) {
+    ruleList.appendChild(createRuleCard(origin, siteRules[origin]));
+  }
+}
+
+function createRuleCard(origin: string, rule: SiteRule): HTMLFormElement {
+  const card = (ruleTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLFormElement;
+  const contentRootInput = card.elements.namedItem('contentRoot') as HTMLInputElement;
+  const excludeInput = card.elements.namedItem('exclude') as HTMLTextAreaElement;
+  const forceIncludeInput = card.elements.namedItem('forceInclude') as HTMLInputElement;
+  const errorEl = card.querySelector('.rule-card-footer .rule-error') as HTMLSpanElement;
+  const savedEl = card.querySelector('.rule-saved') as HTMLSpanElement;
+
+  (card.querySelector('.rule-origin') as HTMLSpanElement).textContent = origin;
+  contentRootInput.value = rule.contentRoot || '';
+  excludeInput.value = rule.exclude.join('\n');
+  forceIncludeInput.checked = rule.forceInclude;
+
+  card.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    savedEl.classList.remove('visible');
+
+    const contentRoot = contentRootInput.value.trim();
+    const exclude = excludeInput.value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+    const invalid = findInvalidSelector(contentRoot ? [contentRoot, ...exclude] : exclude);
+    if (invalid) {
+      errorEl.textContent = `Invalid selector: ${invalid}`;
+      return;
+    }
+    errorEl.textContent = '';
+
+    siteRules = {
+      ...siteRules,
+      [origin]: {
+        ...(contentRoot ? { contentRoot } : {}),
+        exclude,
+        forceInclude: forceIncludeInput.checked,
+      },
+    };
+    await saveRules();
+    savedEl.classList.add('visible');
+  });
+
+  card.querySelector('.rule-delete')!.addEventListener('click', async () => {
+    const { [origin]: _removed, ...rest } = siteRules;
+    siteRules = rest;
+    await saveRules();
+    renderRules();
+  });
+
+  return card;
+}
+
+// Event listeners
+addRuleForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+
+  const origin = parseOrigin(newOriginInput.value.trim());
+  if (!origin) {
+    addRuleError.textContent = 'Enter a site address such as https://wiki.example.com';
+    return;
+  }
+  addRuleError.textContent = '';
+
+  if (!siteRules[origin]) {
+    siteRules = { ...siteRules, [origin]: { exclude: [], forceInclude: false } };
+    await saveRules();
+  }
+  newOriginInput.value = '';
+  renderRules();
+});
+
+// Initialize
+loadRules();
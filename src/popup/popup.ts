@@ -1,11 +1,27 @@
-import type { Settings } from '../shared/types';
+import type { Settings, ChunkingMode, ChunkSizeUnit, ContentFilter, HighlightPalette } from '../shared/types';
 import type { GetSettingsResponse, GetModelStatusResponse, GetLLMStatusResponse } from '../shared/messages';
 
 // DOM Elements
+const chunkSizeUnitSelect = document.getElementById('chunk-size-unit') as HTMLSelectElement;
+const chunkSizeRow = document.getElementById('chunk-size-row') as HTMLDivElement;
 const chunkSizeInput = document.getElementById('chunk-size') as HTMLInputElement;
 const chunkSizeValue = document.getElementById('chunk-size-value') as HTMLSpanElement;
+const chunkTokenLimitRow = document.getElementById('chunk-token-limit-row') as HTMLDivElement;
+const chunkTokenLimitInput = document.getElementById('chunk-token-limit') as HTMLInputElement;
+const chunkTokenLimitValue = document.getElementById('chunk-token-limit-value') as HTMLSpanElement;
+const chunkingModeSelect = document.getElementById('chunking-mode') as HTMLSelectElement;
+const chunkOverlapRow = document.getElementById('chunk-overlap-row') as HTMLDivElement;
+const chunkOverlapInput = document.getElementById('chunk-overlap') as HTMLInputElement;
+const chunkOverlapValue = document.getElementById('chunk-overlap-value') as HTMLSpanElement;
+const chunkOverlapDescription = document.getElementById('chunk-overlap-description') as HTMLParagraphElement;
 const similarityThresholdInput = document.getElementById('similarity-threshold') as HTMLInputElement;
 const similarityThresholdValue = document.getElementById('similarity-threshold-value') as HTMLSpanElement;
+const lexicalWeightInput = document.getElementById('lexical-weight') as HTMLInputElement;
+const lexicalWeightValue = document.getElementById('lexical-weight-value') as HTMLSpanElement;
+const contentFilterSelect = document.getElementById('content-filter') as HTMLSelectElement;
+const highlightPaletteSelect = document.getElementById('highlight-palette') as HTMLSelectElement;
+const accessibleTextInput = document.getElementById('accessible-text') as HTMLInputElement;
+const hiddenContentInput = document.getElementById('hidden-content') as HTMLInputElement;
 const aiSummaryInput = document.getElementById('ai-summary') as HTMLInputElement;
 const llmStatusEl = document.getElementById('llm-status') as HTMLDivElement;
 const llmProgressBar = llmStatusEl.querySelector('.llm-progress-bar') as HTMLDivElement;
@@ -15,6 +31,7 @@ const modelStatusText = document.getElementById('model-status-text') as HTMLSpan
 const modelProgressContainer = document.getElementById('model-progress-container') as HTMLDivElement;
 const modelProgressFill = document.getElementById('model-progress-fill') as HTMLDivElement;
 const modelProgressText = document.getElementById('model-progress-text') as HTMLSpanElement;
+const openOptionsLink = document.getElementById('open-options') as HTMLAnchorElement;
 
 let currentSettings: Settings | null = null;
 
@@ -24,12 +41,30 @@ async function loadSettings(): Promise<void> {
   currentSettings = response.settings;
 
   // Update UI
+  chunkSizeUnitSelect.value = currentSettings.chunkSizeUnit;
+  chunkTokenLimitInput.value = String(currentSettings.chunkTokenLimit);
+  chunkTokenLimitValue.textContent = String(currentSettings.chunkTokenLimit);
+  updateChunkSizeVisibility();
+
   chunkSizeInput.value = String(currentSettings.chunkSize);
   chunkSizeValue.textContent = String(currentSettings.chunkSize);
 
+  chunkingModeSelect.value = currentSettings.chunkingMode;
+  chunkOverlapInput.value = String(currentSettings.chunkOverlap);
+  chunkOverlapValue.textContent = String(currentSettings.chunkOverlap);
+  updateChunkOverlapVisibility();
+
   similarityThresholdInput.value = String(currentSettings.similarityThreshold);
   similarityThresholdValue.textContent = currentSettings.similarityThreshold.toFixed(2);
 
+  lexicalWeightInput.value = String(currentSettings.lexicalWeight);
+  lexicalWeightValue.textContent = currentSettings.lexicalWeight.toFixed(2);
+
+  contentFilterSelect.value = currentSettings.contentFilter;
+  highlightPaletteSelect.value = currentSettings.highlightPalette;
+  accessibleTextInput.checked = currentSettings.indexAccessibleText;
+  hiddenContentInput.checked = currentSettings.includeHiddenContent;
+
   aiSummaryInput.checked = currentSettings.aiSummaryEnabled;
 }
 
@@ -41,6 +76,19 @@ async function saveSettings(updates: Partial<Settings>): Promise<void> {
   }
 }
 
+// Show the size slider for the selected unit; overlap is counted in the same unit
+function updateChunkSizeVisibility(): void {
+  const tokens = chunkSizeUnitSelect.value === 'tokens';
+  chunkSizeRow.style.display = tokens ? 'none' : 'block';
+  chunkTokenLimitRow.style.display = tokens ? 'block' : 'none';
+  chunkOverlapDescription.textContent = `${tokens ? 'Model tokens' : 'Characters'} repeated between neighbouring chunks so answers spanning two chunks aren't lost.`;
+}
+
+// Overlap only applies when chunking by sentence
+function updateChunkOverlapVisibility(): void {
+  chunkOverlapRow.style.display = chunkingModeSelect.value === 'sentence' ? 'block' : 'none';
+}
+
 // Update model status
 async function updateModelStatus(): Promise<void> {
   const response = await chrome.runtime.sendMessage({ type: 'GET_MODEL_STATUS' }) as GetModelStatusResponse & { statusText?: string };
@@ -121,12 +169,56 @@ chunkSizeInput.addEventListener('input', () => {
   saveSettings({ chunkSize: value });
 });
 
+chunkSizeUnitSelect.addEventListener('change', () => {
+  updateChunkSizeVisibility();
+  saveSettings({ chunkSizeUnit: chunkSizeUnitSelect.value as ChunkSizeUnit });
+});
+
+chunkTokenLimitInput.addEventListener('input', () => {
+  const value = parseInt(chunkTokenLimitInput.value, 10);
+  chunkTokenLimitValue.textContent = String(value);
+  saveSettings({ chunkTokenLimit: value });
+});
+
+chunkingModeSelect.addEventListener('change', () => {
+  updateChunkOverlapVisibility();
+  saveSettings({ chunkingMode: chunkingModeSelect.value as ChunkingMode });
+});
+
+chunkOverlapInput.addEventListener('input', () => {
+  const value = parseInt(chunkOverlapInput.value, 10);
+  chunkOverlapValue.textContent = String(value);
+  saveSettings({ chunkOverlap: value });
+});
+
 similarityThresholdInput.addEventListener('input', () => {
   const value = parseFloat(similarityThresholdInput.value);
   similarityThresholdValue.textContent = value.toFixed(2);
   saveSettings({ similarityThreshold: value });
 });
 
+lexicalWeightInput.addEventListener('input', () => {
+  const value = parseFloat(lexicalWeightInput.value);
+  lexicalWeightValue.textContent = value.toFixed(2);
+  saveSettings({ lexicalWeight: value });
+});
+
+contentFilterSelect.addEventListener('change', () => {
+  saveSettings({ contentFilter: contentFilterSelect.value as ContentFilter });
+});
+
+highlightPaletteSelect.addEventListener('change', () => {
+  saveSettings({ highlightPalette: highlightPaletteSelect.value as HighlightPalette });
+});
+
+accessibleTextInput.addEventListener('change', () => {
+  saveSettings({ indexAccessibleText: accessibleTextInput.checked });
+});
+
+hiddenContentInput.addEventListener('change', () => {
+  saveSettings({ includeHiddenContent: hiddenContentInput.checked });
+});
+
 aiSummaryInput.addEventListener('change', async () => {
   const enabled = aiSummaryInput.checked;
   await saveSettings({ aiSummaryEnabled: enabled });
@@ -137,6 +229,11 @@ aiSummaryInput.addEventListener('change', async () => {
   }
 });
 
+openOptionsLink.addEventListener('click', (event) => {
+  event.preventDefault();
+  chrome.runtime.openOptionsPage();
+});
+
 // Initialize
 loadSettings();
 updateModelStatus();
@@ -0,0 +1,78 @@
+import { segmentWords } from './segmenter';
+
+// Okapi BM25 over a page's chunks, so exact identifiers, error codes and API
+// names a query spells out rank by the words themselves and not only by meaning
+
+// Term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+export interface BM25Index {
+  // Term counts of each document
+  documents: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  // Number of documents each term occurs in
+  documentFrequency: Map<string, number>;
+}
+
+// Lowercased words of a text, leaving out punctuation
+export function tokenize(text: string, locale?: string): string[] {
+  return segmentWords(text, locale)
+    .filter((word) => word.isWordLike)
+    .map((word) => text.slice(word.start, word.end).toLowerCase());
+}
+
+export function createBM25Index(texts: string[], locale?: string): BM25Index {
+  const documents: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const text of texts) {
+    const terms = new Map<string, number>();
+    const tokens = tokenize(text, locale);
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    documents.push(terms);
+    lengths.push(tokens.length);
+  }
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return { documents, lengths, averageLength: totalLength / Math.max(1, texts.length), documentFrequency };
+}
+
+// BM25 score of every document for a query, 0 where none of its words occur
+export function scoreBM25(index: BM25Index, query: string, locale?: string): number[] {
+  const terms = [...new Set(tokenize(query, locale))];
+  const count = index.documents.length;
+
+  return index.documents.map((document, i) => {
+    const lengthNorm = 1 - B + B * (index.lengths[i] / (index.averageLength || 1));
+    let score = 0;
+    for (const term of terms) {
+      const frequency = document.get(term);
+      if (!frequency) continue;
+
+      const idf = inverseDocumentFrequency(count, index.documentFrequency.get(term) ?? 0);
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+    }
+    return score;
+  });
+}
+
+// Score of a chunk of average length holding each of the query's words once,
+// none of which occurs anywhere else on the page. Unlike the best score on the
+// page, it stays high when the query's words are common, so scores scaled by
+// it are low for those
+export function scoreCeiling(index: BM25Index, query: string, locale?: string): number {
+  const terms = new Set(tokenize(query, locale));
+  return terms.size * inverseDocumentFrequency(index.documents.length, 1);
+}
+
+function inverseDocumentFrequency(count: number, df: number): number {
+  return Math.log(1 + (count - df + 0.5) / (df + 0.5));
+}
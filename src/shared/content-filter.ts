@@ -0,0 +1,8 @@
+import type { ContentFilter, TextChunk } from './types';
+
+// Code blocks are searched on their own or left out, depending on the filter
+export function matchesContentFilter(chunk: TextChunk, filter: ContentFilter): boolean {
+  if (filter === 'code') return chunk.blockType === 'code';
+  if (filter === 'prose') return chunk.blockType !== 'code';
+  return true;
+}
@@ -0,0 +1,12 @@
+import type { TextChunk } from './types';
+
+// Chunks are embedded with their heading trail in front, so sections inform
+// the embedding; chunking leaves room for it in the model's window
+
+export function getHeadingPrefix(headingPath: string[] | undefined): string {
+  return headingPath?.length ? `${headingPath.join(' > ')}: ` : '';
+}
+
+export function getEmbeddingText(chunk: TextChunk): string {
+  return getHeadingPrefix(chunk.headingPath) + chunk.text;
+}
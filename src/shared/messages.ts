@@ -1,4 +1,4 @@
-import type { TextChunk, SearchResult, ModelStatus, LLMStatus, Settings } from './types';
+import type { TextChunk, SearchResult, ModelStatus, LLMStatus, Settings, SiteSearchMode } from './types';
 
 // Message types for communication between content script and service worker
 
@@ -8,10 +8,17 @@ export type MessageType =
   | 'GET_MODEL_STATUS'
   | 'GET_SETTINGS'
   | 'UPDATE_SETTINGS'
+  | 'SET_SITE_SEARCH_MODE'
   | 'GENERATE_SUMMARY'
   | 'DOWNLOAD_LLM'
   | 'GET_LLM_STATUS'
-  | 'TOGGLE_OVERLAY';
+  | 'TOGGLE_OVERLAY'
+  | 'COUNT_TOKENS'
+  | 'COLLECT_FRAME_CHUNKS'
+  | 'GET_FRAME_CHUNKS'
+  | 'FRAME_COMMAND'
+  | 'FRAME_CHANGED'
+  | 'ROUTE_CHANGED';
 
 // Request messages
 export interface GetEmbeddingsRequest {
@@ -24,6 +31,10 @@ export interface SearchQueryRequest {
   type: 'SEARCH_QUERY';
   query: string;
   chunks: TextChunk[];
+  // Page language, used to split results into sentences
+  locale?: string;
+  // Hybrid searches blend in a keyword score; semantic ones, the default, don't
+  mode?: 'semantic' | 'hybrid';
 }
 
 export interface GetModelStatusRequest {
@@ -39,10 +50,20 @@ export interface UpdateSettingsRequest {
   settings: Partial<Settings>;
 }
 
+// Saves one site's search mode into the stored ones, so tabs on other sites
+// don't overwrite each other's choices
+export interface SetSiteSearchModeRequest {
+  type: 'SET_SITE_SEARCH_MODE';
+  origin: string;
+  mode: SiteSearchMode;
+}
+
 export interface GenerateSummaryRequest {
   type: 'GENERATE_SUMMARY';
   query: string;
   topResults: SearchResult[];
+  // Page language, used to clean up the generated text
+  locale?: string;
 }
 
 export interface DownloadLLMRequest {
@@ -55,6 +76,55 @@ export interface GetLLMStatusRequest {
 
 export interface ToggleOverlayRequest {
   type: 'TOGGLE_OVERLAY';
+  // Tab the toggle is for, when broadcast to the extension's own PDF viewer pages
+  tabId?: number;
+}
+
+export interface CountTokensRequest {
+  type: 'COUNT_TOKENS';
+  texts: string[];
+}
+
+// Collects from one subframe, or from all of them if frameId is omitted
+export interface CollectFrameChunksRequest {
+  type: 'COLLECT_FRAME_CHUNKS';
+  frameId?: number;
+}
+
+// Sent by the service worker to each subframe
+export interface GetFrameChunksRequest {
+  type: 'GET_FRAME_CHUNKS';
+}
+
+// Highlight work the top frame delegates to the subframe that owns a chunk
+export type FrameCommand =
+  | { action: 'highlight'; results: SearchResult[] }
+  | { action: 'activate'; chunkId: string | null; scroll?: boolean }
+  | { action: 'clear' }
+  | { action: 'pin'; pinId: string; color: string }
+  | { action: 'showPin'; pinId: string; visible: boolean }
+  | { action: 'unpin'; pinId: string }
+  | { action: 'unwatch' };
+
+// Relayed by the service worker to one subframe, or to all frames if frameId is omitted
+export interface FrameCommandRequest {
+  type: 'FRAME_COMMAND';
+  command: FrameCommand;
+  frameId?: number;
+}
+
+// Sent by a subframe whose document loaded or changed, and relayed by the
+// service worker to the top frame with the subframe's frameId
+export interface FrameChangedMessage {
+  type: 'FRAME_CHANGED';
+  frameId?: number;
+}
+
+// Sent by the service worker to the top frame when the tab's history changes
+// without a page load (pushState, replaceState, back/forward, hash routes)
+export interface RouteChangedMessage {
+  type: 'ROUTE_CHANGED';
+  url: string;
 }
 
 export type Message =
@@ -63,10 +133,17 @@ export type Message =
   | GetModelStatusRequest
   | GetSettingsRequest
   | UpdateSettingsRequest
+  | SetSiteSearchModeRequest
   | GenerateSummaryRequest
   | DownloadLLMRequest
   | GetLLMStatusRequest
-  | ToggleOverlayRequest;
+  | ToggleOverlayRequest
+  | CountTokensRequest
+  | CollectFrameChunksRequest
+  | GetFrameChunksRequest
+  | FrameCommandRequest
+  | FrameChangedMessage
+  | RouteChangedMessage;
 
 // Response types
 export interface GetEmbeddingsResponse {
@@ -79,6 +156,8 @@ export interface SearchQueryResponse {
   success: boolean;
   results?: SearchResult[];
   error?: string;
+  // Set when the query's syntax is wrong, e.g. an unclosed quote, for the search bar to show
+  queryError?: string;
 }
 
 export interface GetModelStatusResponse {
@@ -105,3 +184,24 @@ export interface GetLLMStatusResponse {
   status: LLMStatus;
   progress?: number;
 }
+
+export interface CountTokensResponse {
+  success: boolean;
+  // Tokens per text, excluding the model's special tokens
+  counts?: number[];
+  // Model window, including special tokens
+  maxTokens?: number;
+  error?: string;
+}
+
+export interface CollectFrameChunksResponse {
+  success: boolean;
+  chunks?: TextChunk[];
+  error?: string;
+}
+
+export interface GetFrameChunksResponse {
+  success: boolean;
+  chunks?: TextChunk[];
+  error?: string;
+}
@@ -0,0 +1,87 @@
+import { tokenize } from './bm25';
+
+// A small query language around the semantic search:
+//   "exact phrase"  must appear literally
+//   +term           must appear as a word
+//   -term           must not appear (also -"a phrase")
+// Everything else, phrases and required terms included, is searched by meaning
+
+export interface ParsedQuery {
+  // What the query is about, without its operators, for the embedder and BM25
+  text: string;
+  phrases: string[];
+  required: string[];
+  excluded: string[];
+  excludedPhrases: string[];
+}
+
+export class QueryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const query: ParsedQuery = { text: '', phrases: [], required: [], excluded: [], excludedPhrases: [] };
+  const words: string[] = [];
+
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const operator = input[i] === '-' || input[i] === '+' ? input[i] : '';
+    if (operator) i++;
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) throw new QueryParseError('Missing closing quote');
+      const phrase = input.slice(i + 1, close).trim().replace(/\s+/g, ' ');
+      if (!phrase) throw new QueryParseError('Empty quotes');
+      i = close + 1;
+
+      if (operator === '-') {
+        query.excludedPhrases.push(phrase);
+      } else {
+        query.phrases.push(phrase);
+        words.push(phrase);
+      }
+      continue;
+    }
+
+    const match = /^[^\s"]+/.exec(input.slice(i));
+    // Only an operator followed by a space or the end gets here without a word
+    if (!match) throw new QueryParseError(`Expected a word after ${operator}`);
+    const word = match[0];
+    i += word.length;
+
+    if (operator === '-') {
+      query.excluded.push(word);
+    } else {
+      if (operator === '+') query.required.push(word);
+      words.push(word);
+    }
+  }
+
+  query.text = words.join(' ');
+  if (!query.text) throw new QueryParseError('Nothing to search for besides excluded terms');
+  return query;
+}
+
+// Whether a chunk's text passes a query's phrase and term filters
+export function matchesQuery(text: string, query: ParsedQuery, locale?: string): boolean {
+  const normalized = text.replace(/\s+/g, ' ').toLowerCase();
+  const words = new Set(tokenize(text, locale));
+  const hasTerm = (term: string) => {
+    const tokens = tokenize(term, locale);
+    return tokens.length > 0 && tokens.every((token) => words.has(token));
+  };
+
+  return query.phrases.every((phrase) => normalized.includes(phrase.toLowerCase()))
+    && query.required.every(hasTerm)
+    && !query.excluded.some(hasTerm)
+    && !query.excludedPhrases.some((phrase) => normalized.includes(phrase.toLowerCase()));
+}
@@ -0,0 +1,96 @@
+// Locale-aware text segmentation built on Intl.Segmenter
+// Falls back to whitespace and Latin punctuation where Intl.Segmenter is unavailable
+
+// A span of text, end exclusive
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface WordSpan extends TextSpan {
+  // False for punctuation and symbols
+  isWordLike: boolean;
+}
+
+// Sentence terminator plus any closing quotes/brackets and the whitespace after it
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+// Get a cached segmenter, or null if Intl.Segmenter isn't supported
+function getSegmenter(locale: string | undefined, granularity: 'sentence' | 'word'): Intl.Segmenter | null {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+
+  const key = `${locale || ''}:${granularity}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale || undefined, { granularity });
+    } catch {
+      // Malformed lang attribute, use the default locale
+      segmenter = new Intl.Segmenter(undefined, { granularity });
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+// Narrow a span so it doesn't start or end with whitespace
+function trimSpan(text: string, start: number, end: number): TextSpan | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+// Split text into trimmed sentence spans
+export function segmentSentences(text: string, locale?: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const push = (start: number, end: number) => {
+    const span = trimSpan(text, start, end);
+    if (span) spans.push(span);
+  };
+
+  const segmenter = getSegmenter(locale, 'sentence');
+  if (segmenter) {
+    for (const { segment, index } of segmenter.segment(text)) {
+      push(index, index + segment.length);
+    }
+    return spans;
+  }
+
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    push(start, end);
+    start = end;
+  }
+  push(start, text.length);
+
+  return spans;
+}
+
+// Split text into words and punctuation, skipping whitespace
+export function segmentWords(text: string, locale?: string): WordSpan[] {
+  const spans: WordSpan[] = [];
+
+  const segmenter = getSegmenter(locale, 'word');
+  if (segmenter) {
+    for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+      if (!segment.trim()) continue;
+      spans.push({ start: index, end: index + segment.length, isWordLike: !!isWordLike });
+    }
+    return spans;
+  }
+
+  for (const match of text.matchAll(/\S+/g)) {
+    spans.push({ start: match.index!, end: match.index! + match[0].length, isWordLike: true });
+  }
+  return spans;
+}
+
+// Get the text up to and including the count-th word
+export function getFirstWords(text: string, count: number, locale?: string): string {
+  const words = segmentWords(text, locale).filter((word) => word.isWordLike);
+  if (words.length <= count) return text;
+  return text.slice(0, words[count - 1].end);
+}
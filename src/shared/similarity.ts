@@ -41,3 +41,9 @@ export function findTopKSimilar(
     .sort((a, b) => b.score - a.score)
     .slice(0, k);
 }
+
+// Blend a semantic score with a lexical one scaled to 0-1, where weight is
+// the lexical share: 0 ranks by meaning alone, 1 by matching words alone
+export function fuseScores(semantic: number, lexical: number, weight: number): number {
+  return (1 - weight) * semantic + weight * lexical;
+}
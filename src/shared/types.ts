@@ -1,3 +1,6 @@
+// Kind of block a chunk's text comes from
+export type BlockType = 'heading' | 'paragraph' | 'list-item' | 'table-cell' | 'table-row' | 'code' | 'blockquote' | 'accessible' | 'other';
+
 // Text chunk with its embedding
 export interface TextChunk {
   id: string;
@@ -5,19 +8,87 @@ export interface TextChunk {
   startOffset: number;
   endOffset: number;
   embedding?: number[];
+  // Set for chunks extracted from a subframe; the top frame's chunks have none
+  frameId?: number;
+  // Headings the chunk sits under, outermost first (h1 > h2 > h3)
+  headingPath?: string[];
+  blockType?: BlockType;
+  // CSS selector of the block element the chunk starts in
+  selector?: string;
+  // Language of a code chunk, from a language-* or lang-* class
+  language?: string;
+  // Page of a PDF the chunk is on, starting at 1
+  page?: number;
 }
 
+// Which part of a hybrid search found a result: its meaning (embeddings) or
+// the query's words (BM25)
+export type MatchKind = 'semantic' | 'lexical';
+
 // Search result with similarity score
 export interface SearchResult {
   chunk: TextChunk;
   score: number;
   highlighted: boolean;
+  matchedBy?: MatchKind[];
+  // Offsets in the chunk's text of the sentence that best matches the query,
+  // for chunks of more than one sentence
+  focus?: { start: number; end: number };
+}
+
+// How page text is split into chunks
+export type ChunkingMode = 'node' | 'sentence';
+
+// Unit chunk sizes are measured in
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
+// Which kinds of chunks a search looks at
+export type ContentFilter = 'all' | 'prose' | 'code';
+
+// Colors results are highlighted in
+export type HighlightPalette = 'yellow' | 'colorblind';
+
+// How the search bar matches a query: by meaning, by meaning blended with its
+// words, or literally like the browser's own find
+export type SearchMode = 'semantic' | 'hybrid' | 'exact' | 'regex';
+
+// Search mode chosen on one origin
+export interface SiteSearchMode {
+  mode: SearchMode;
+  // For exact and regex searches
+  caseSensitive: boolean;
+}
+
+// Extraction overrides for one origin, for sites the heuristics get wrong
+export interface SiteRule {
+  // Selector of the element to extract from, instead of the detected content root
+  contentRoot?: string;
+  // Selectors of elements to leave out
+  exclude: string[];
+  // Keep elements whose class or id looks like navigation, ads, comments, etc.
+  forceInclude: boolean;
 }
 
 // Settings stored in chrome.storage
 export interface Settings {
   chunkSize: number;
+  chunkSizeUnit: ChunkSizeUnit;
+  chunkTokenLimit: number;
+  chunkingMode: ChunkingMode;
+  chunkOverlap: number;
   similarityThreshold: number;
+  // Share of a result's score that comes from matching the query's words
+  // rather than its meaning, from 0 (meaning only) to 1 (words only)
+  lexicalWeight: number;
+  contentFilter: ContentFilter;
+  indexAccessibleText: boolean;
+  // Also search closed <details>, inactive tabs and collapsed accordions
+  includeHiddenContent: boolean;
+  highlightPalette: HighlightPalette;
+  // Site rules keyed by origin, e.g. https://wiki.example.com
+  siteRules: Record<string, SiteRule>;
+  // Search modes last used on each origin
+  siteSearchModes: Record<string, SiteSearchMode>;
   aiSummaryEnabled: boolean;
   llmModelDownloaded: boolean;
 }
@@ -35,9 +106,23 @@ export type ModelStatus = 'idle' | 'loading' | 'ready' | 'error';
 // LLM status for AI summary
 export type LLMStatus = 'not_downloaded' | 'downloading' | 'ready' | 'generating' | 'error';
 
+// Searches go by meaning alone unless a site is switched to another mode
+export const DEFAULT_SEARCH_MODE: SiteSearchMode = { mode: 'semantic', caseSensitive: false };
+
 export const DEFAULT_SETTINGS: Settings = {
   chunkSize: 200,
+  chunkSizeUnit: 'characters',
+  chunkTokenLimit: 128,
+  chunkingMode: 'sentence',
+  chunkOverlap: 50,
   similarityThreshold: 0.3,
+  lexicalWeight: 0.3,
+  contentFilter: 'all',
+  indexAccessibleText: false,
+  includeHiddenContent: false,
+  highlightPalette: 'yellow',
+  siteRules: {},
+  siteSearchModes: {},
   aiSummaryEnabled: false,
   llmModelDownloaded: false,
 };
@@ -0,0 +1,77 @@
+// Turns the text items pdf.js reports for a page into searchable lines, and
+// maps positions in that text back to the items' spans in the text layer
+
+// The parts of a pdf.js TextItem used here
+export interface PdfTextItem {
+  str: string;
+  hasEOL: boolean;
+}
+
+export interface PageText {
+  // Non-blank lines of the page; items on a line run together, since the PDF
+  // already spaces them
+  lines: string[];
+  // The lines joined by single spaces, as the chunker lays text nodes out
+  text: string;
+  // Where each item's text sits in text, or null for items on blank lines
+  itemSpans: ({ start: number; end: number } | null)[];
+}
+
+export interface ItemPosition {
+  item: number;
+  offset: number;
+}
+
+export function getPageText(items: PdfTextItem[]): PageText {
+  const lines: string[] = [];
+  const itemSpans: PageText['itemSpans'] = items.map(() => null);
+  let text = '';
+  let line = '';
+  let lineItems: number[] = [];
+
+  const endLine = () => {
+    if (line.trim()) {
+      if (lines.length > 0) text += ' ';
+      let start = text.length;
+      for (const index of lineItems) {
+        itemSpans[index] = { start, end: start + items[index].str.length };
+        start += items[index].str.length;
+      }
+      lines.push(line);
+      text += line;
+    }
+    line = '';
+    lineItems = [];
+  };
+
+  items.forEach((item, index) => {
+    lineItems.push(index);
+    line += item.str;
+    if (item.hasEOL) endLine();
+  });
+  endLine();
+
+  return { lines, text, itemSpans };
+}
+
+// Item holding the character at offset (for the start of a range) or the one
+// just before it (for the end); offsets on the space between two lines move
+// to the neighbouring item
+export function findItemPosition(pageText: PageText, offset: number, side: 'start' | 'end'): ItemPosition | null {
+  let before: ItemPosition | null = null;
+
+  for (let item = 0; item < pageText.itemSpans.length; item++) {
+    const span = pageText.itemSpans[item];
+    if (!span || span.end === span.start) continue;
+
+    if (side === 'start' && offset < span.end) {
+      return { item, offset: Math.max(0, offset - span.start) };
+    }
+    if (side === 'end') {
+      if (span.start >= offset) break;
+      before = { item, offset: Math.min(offset, span.end) - span.start };
+    }
+  }
+
+  return before;
+}
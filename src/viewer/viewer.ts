@@ -0,0 +1,470 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { TextChunk, SearchResult, Settings, SiteSearchMode } from '../shared/types';
+import { DEFAULT_SEARCH_MODE } from '../shared/types';
+import type { GetEmbeddingsResponse, SearchQueryResponse, GetSettingsResponse, GenerateSummaryResponse } from '../shared/messages';
+import type { TextNode } from '../content/text-chunker';
+import { chunkWithSettings } from '../content/token-counter';
+import { batchHighlights, highlightRange, highlightText, highlightFocusRange, highlightFocusText, clearAllHighlights, setActiveHighlight, setHighlightPalette, setHighlightScore, pinHighlights, setPinVisible, unpinHighlights } from '../content/highlighter';
+import { createOverlay, show, toggle, updateResults, selectResult, updateSummary, setStatus, setSettings, setOnSearch, setOnNavigate, setOnClose, setOnClear, setOnRequestSummary, setOnPin, setOnTogglePin, setOnUnpin, updatePins, setSearchMode, setOnModeChange } from '../content/overlay';
+import { showMinimap, hideMinimap, setMinimapActive, setOnMinimapSelect } from '../content/minimap';
+import { createPin, type PinnedQuery } from '../content/pins';
+import { findLiteralMatches } from '../content/literal-search';
+import { QueryParseError } from '../shared/query-parser';
+import { getPageText, findItemPosition, type PageText } from './pdf-text';
+
+// Chrome's PDF viewer is out of reach of content scripts, so PDFs are opened
+// here instead: pages are drawn with PDF.js, and their text layers are
+// indexed and highlighted like any other page
+
+// Pages are drawn this much larger than their size in the PDF
+const SCALE = 1.5;
+
+// Draw pages this far before they scroll into view
+const RENDER_MARGIN = '1000px';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.mjs');
+
+interface ViewerPage {
+  number: number;
+  element: HTMLDivElement;
+  proxy: PDFPageProxy;
+  text: PageText;
+  // Text layer spans, one per text item
+  spans: HTMLElement[];
+  // Offset of the page's text among all the document's text nodes
+  startOffset: number;
+  rendered: boolean;
+}
+
+const params = new URLSearchParams(window.location.search);
+const fileUrl = params.get('file');
+
+// DOM Elements
+const pagesEl = document.getElementById('pages') as HTMLElement;
+const messageEl = document.getElementById('viewer-message') as HTMLParagraphElement;
+
+// State
+let settings: Settings | null = null;
+const pages: ViewerPage[] = [];
+let locale: string | undefined;
+let pageChunks: TextChunk[] = [];
+let isIndexed = false;
+// Only semantic and hybrid searches need embeddings, so they're made on their first one
+let isEmbedded = false;
+let currentResults: SearchResult[] = [];
+let currentQuery = '';
+let pinnedQueries: PinnedQuery[] = [];
+let searchMode: SiteSearchMode = DEFAULT_SEARCH_MODE;
+
+const pageObserver = new IntersectionObserver((entries) => {
+  for (const entry of entries) {
+    const page = pages.find((p) => p.element === entry.target);
+    if (entry.isIntersecting && page && !page.rendered) {
+      renderPage(page).catch((error) => console.error('[SemanticFind] Error drawing page', page.number, error));
+    }
+  }
+}, { rootMargin: RENDER_MARGIN });
+
+// Initialize
+async function init(): Promise<void> {
+  if (!fileUrl) {
+    showMessage('No PDF to open.');
+    return;
+  }
+  document.title = pdfjsLib.getPdfFilenameFromUrl(fileUrl);
+
+  const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' }) as GetSettingsResponse;
+  settings = response.settings;
+  setHighlightPalette(settings.highlightPalette);
+
+  createOverlay();
+  setSettings(settings);
+  searchMode = settings.siteSearchModes[getSite()] ?? DEFAULT_SEARCH_MODE;
+  setSearchMode(searchMode);
+  setOnSearch(handleSearch);
+  setOnNavigate(handleNavigate);
+  setOnClose(handleClose);
+  setOnClear(handleClear);
+  setOnRequestSummary(handleRequestSummary);
+  setOnMinimapSelect(selectResult);
+  setOnPin(handlePin);
+  setOnTogglePin(handleTogglePin);
+  setOnUnpin(handleUnpin);
+  setOnModeChange(handleModeChange);
+
+  try {
+    const pdf = await pdfjsLib.getDocument({
+      url: fileUrl,
+      cMapUrl: chrome.runtime.getURL('cmaps/'),
+      standardFontDataUrl: chrome.runtime.getURL('standard_fonts/'),
+      wasmUrl: chrome.runtime.getURL('wasm/'),
+      isEvalSupported: false,
+    }).promise;
+    await loadPages(pdf);
+  } catch (error) {
+    console.error('[SemanticFind] Error opening PDF:', error);
+    showMessage(`Couldn't open ${fileUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  // Opened from the find shortcut, so start with the search bar open
+  if (params.has('find')) {
+    show();
+  }
+}
+
+function showMessage(message: string): void {
+  messageEl.textContent = message;
+  messageEl.classList.remove('hidden');
+}
+
+// Lay out every page with its text layer; canvases are drawn as pages near the viewport
+async function loadPages(pdf: PDFDocumentProxy): Promise<void> {
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const proxy = await pdf.getPage(number);
+    const viewport = proxy.getViewport({ scale: SCALE });
+
+    const element = document.createElement('div');
+    element.className = 'page';
+    element.dataset.pageNumber = String(number);
+    element.style.width = `${viewport.width}px`;
+    element.style.height = `${viewport.height}px`;
+    element.style.setProperty('--scale-factor', String(SCALE));
+    element.style.setProperty('--user-unit', String(viewport.userUnit));
+
+    const textLayerEl = document.createElement('div');
+    textLayerEl.className = 'textLayer';
+    element.appendChild(textLayerEl);
+    pagesEl.appendChild(element);
+
+    const textContent = await proxy.getTextContent();
+    locale ??= textContent.lang || undefined;
+
+    const textLayer = new pdfjsLib.TextLayer({ textContentSource: textContent, container: textLayerEl, viewport });
+    await textLayer.render();
+
+    const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+    pages.push({
+      number,
+      element,
+      proxy,
+      text: getPageText(items),
+      spans: textLayer.textDivs,
+      startOffset: 0,
+      rendered: false,
+    });
+    pageObserver.observe(element);
+  }
+}
+
+async function renderPage(page: ViewerPage): Promise<void> {
+  page.rendered = true;
+
+  const viewport = page.proxy.getViewport({ scale: SCALE });
+  const outputScale = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  page.element.prepend(canvas);
+
+  await page.proxy.render({
+    canvas,
+    viewport,
+    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  }).promise;
+}
+
+// One text node per line, each tagged with its page
+function getTextNodes(): TextNode[] {
+  const textNodes: TextNode[] = [];
+  let offset = 0;
+
+  for (const page of pages) {
+    page.startOffset = offset;
+    for (const line of page.text.lines) {
+      textNodes.push({
+        text: line,
+        node: page.element,
+        startOffset: offset,
+        blockType: 'paragraph',
+        selector: `.page[data-page-number="${page.number}"]`,
+        page: page.number,
+      });
+      offset += line.length + 1;
+    }
+  }
+
+  return textNodes;
+}
+
+// Index the document's text, embedding it when the search needs embeddings
+// (exact and regex searches don't)
+async function indexDocument(embed: boolean): Promise<boolean> {
+  if (isIndexed && (isEmbedded || !embed)) {
+    return true;
+  }
+
+  setStatus('Indexing...');
+
+  try {
+    if (!isIndexed) {
+      pageChunks = await chunkWithSettings(getTextNodes(), settings, locale);
+      if (pageChunks.length === 0) {
+        // Scanned PDFs have no text layer to search
+        setStatus('No text found');
+        return false;
+      }
+
+      console.log('[SemanticFind] Extracted', pageChunks.length, 'chunks from', pages.length, 'pages');
+      isIndexed = true;
+    }
+
+    if (embed) {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_EMBEDDINGS',
+        chunks: pageChunks,
+        url: fileUrl,
+      }) as GetEmbeddingsResponse;
+
+      if (!response.success || !response.chunks) {
+        setStatus('Indexing failed');
+        console.error('[SemanticFind] Failed to get embeddings:', response.error);
+        return false;
+      }
+
+      pageChunks = response.chunks;
+      isEmbedded = true;
+    }
+
+    setStatus('');
+    return true;
+  } catch (error) {
+    console.error('[SemanticFind] Error indexing PDF:', error);
+    setStatus('Error');
+    return false;
+  }
+}
+
+// Handle search query
+async function handleSearch(query: string): Promise<void> {
+  currentQuery = query;
+  const { mode } = searchMode;
+  const indexed = await indexDocument(mode === 'semantic' || mode === 'hybrid');
+  if (!indexed) {
+    updateResults([]);
+    return;
+  }
+
+  setStatus('Searching...');
+
+  try {
+    const results = await runSearch(query);
+    // The box was cleared or a newer search started meanwhile
+    if (query !== currentQuery) return;
+    if (!results) {
+      setStatus('Search failed');
+      updateResults([]);
+      return;
+    }
+
+    currentResults = results;
+    batchHighlights(() => {
+      clearAllHighlights();
+      for (const result of currentResults) {
+        highlightResult(result);
+      }
+    });
+    showMinimap(currentResults, settings?.highlightPalette ?? 'yellow');
+
+    setStatus('');
+    updateResults(currentResults);
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      updateResults([]);
+      setStatus(error.message);
+      return;
+    }
+    console.error('[SemanticFind] Search error:', error);
+    setStatus('Error');
+    updateResults([]);
+  }
+}
+
+// Results for a query in the current search mode; exact and regex searches
+// run here, semantic and hybrid ones in the service worker
+async function runSearch(query: string): Promise<SearchResult[] | null> {
+  const { mode } = searchMode;
+  if (mode === 'exact' || mode === 'regex') {
+    return findLiteralMatches(pageChunks, query, searchMode, { contentFilter: settings?.contentFilter });
+  }
+
+  const response = await chrome.runtime.sendMessage({
+    type: 'SEARCH_QUERY',
+    query,
+    chunks: pageChunks,
+    locale,
+    mode,
+  }) as SearchQueryResponse;
+
+  if (response.queryError) {
+    throw new QueryParseError(response.queryError);
+  }
+  if (!response.success || !response.results) {
+    console.error('[SemanticFind] Search failed:', response.error);
+    return null;
+  }
+  return response.results;
+}
+
+// Highlight a result's spans in its page's text layer, emphasising its best-matching sentence
+function highlightResult({ chunk, focus, score }: SearchResult): boolean {
+  const page = chunk.page ? pages[chunk.page - 1] : undefined;
+  const start = page ? findChunkStart(page, chunk) : -1;
+
+  if (!page || start === -1) {
+    if (!highlightText(chunk.id, chunk.text)) return false;
+    setHighlightScore(chunk.id, score);
+    if (focus) highlightFocusText(chunk.id, chunk.text.slice(focus.start, focus.end));
+    return true;
+  }
+
+  const range = createPageRange(page, start, start + chunk.text.length);
+  if (!range || !highlightRange(chunk.id, range)) return false;
+  setHighlightScore(chunk.id, score);
+
+  const focusRange = focus && createPageRange(page, start + focus.start, start + focus.end);
+  if (focusRange) highlightFocusRange(chunk.id, focusRange);
+  return true;
+}
+
+// Where a chunk's text starts in its page's text, or -1
+function findChunkStart(page: ViewerPage, chunk: TextChunk): number {
+  // Look where the chunk's offsets say it is first, in case the text repeats on the page
+  const { text } = page.text;
+  const expected = Math.max(0, chunk.startOffset - page.startOffset);
+  return text.startsWith(chunk.text, expected) ? expected : text.indexOf(chunk.text);
+}
+
+// Range over the text layer spans holding part of a page's text
+function createPageRange(page: ViewerPage, start: number, end: number): Range | null {
+  const from = findItemPosition(page.text, start, 'start');
+  const to = findItemPosition(page.text, end, 'end');
+  const startNode = from && page.spans[from.item]?.firstChild;
+  const endNode = to && page.spans[to.item]?.firstChild;
+  if (!startNode || !endNode) return null;
+
+  const range = document.createRange();
+  range.setStart(startNode, from.offset);
+  range.setEnd(endNode, to.offset);
+  return range;
+}
+
+// Handle navigation between results
+function handleNavigate(index: number): void {
+  if (index < 0 || index >= currentResults.length) return;
+  setActiveHighlight(currentResults[index].chunk.id);
+  setMinimapActive(index);
+}
+
+// Keep the current search's highlights as a pinned query, so the next search
+// doesn't clear them. Only the query whose results are showing can be pinned
+function handlePin(query: string): boolean {
+  if (query !== currentQuery || currentResults.length === 0) return false;
+
+  const pin = createPin(query, pinnedQueries);
+  if (!pinHighlights(pin.id, pin.color)) return false;
+
+  pinnedQueries = [...pinnedQueries, pin];
+  currentQuery = '';
+  currentResults = [];
+  hideMinimap();
+  updatePins(pinnedQueries);
+  return true;
+}
+
+function handleTogglePin(pinId: string): void {
+  pinnedQueries = pinnedQueries.map((pin) => pin.id === pinId ? { ...pin, visible: !pin.visible } : pin);
+  const pin = pinnedQueries.find((p) => p.id === pinId);
+  if (!pin) return;
+
+  setPinVisible(pinId, pin.visible);
+  updatePins(pinnedQueries);
+}
+
+function handleUnpin(pinId: string): void {
+  pinnedQueries = pinnedQueries.filter((pin) => pin.id !== pinId);
+  unpinHighlights(pinId);
+  updatePins(pinnedQueries);
+}
+
+// Search modes are remembered per site, so a PDF goes by the site it came from
+function getSite(): string {
+  try {
+    return new URL(fileUrl ?? '').origin;
+  } catch {
+    return '';
+  }
+}
+
+function handleModeChange(mode: SiteSearchMode): void {
+  searchMode = mode;
+  chrome.runtime.sendMessage({ type: 'SET_SITE_SEARCH_MODE', origin: getSite(), mode }).catch((error) => {
+    console.warn('[SemanticFind] Failed to save search mode:', error);
+  });
+}
+
+// The search box was emptied; pinned queries stay highlighted
+function handleClear(): void {
+  currentQuery = '';
+  currentResults = [];
+  clearAllHighlights();
+  hideMinimap();
+}
+
+// Handle overlay close; pinned queries stay highlighted until unpinned
+function handleClose(): void {
+  currentQuery = '';
+  clearAllHighlights();
+  hideMinimap();
+}
+
+// Handle summary request
+async function handleRequestSummary(query: string, results: SearchResult[]): Promise<void> {
+  if (!settings?.aiSummaryEnabled) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'GENERATE_SUMMARY',
+      query,
+      topResults: results.slice(0, 5).map((r) => ({ chunk: r.chunk, score: r.score })),
+      locale,
+    }) as GenerateSummaryResponse;
+
+    if (response.success && response.summary) {
+      updateSummary(response.summary);
+    }
+  } catch (error) {
+    console.error('[SemanticFind] Summary generation error:', error);
+  }
+}
+
+// Ctrl+F opens semantic search here, as there's no native find to fall back on
+document.addEventListener('keydown', (event) => {
+  if ((event.ctrlKey || event.metaKey) && !event.shiftKey && !event.altKey && event.key.toLowerCase() === 'f') {
+    event.preventDefault();
+    show();
+  }
+});
+
+// The find shortcut reaches extension pages as a broadcast naming the tab it's for
+chrome.tabs.getCurrent().then((tab) => {
+  chrome.runtime.onMessage.addListener((message) => {
+    if (message.type === 'TOGGLE_OVERLAY' && message.tabId === tab?.id) {
+      toggle();
+    }
+  });
+});
+
+init().catch(console.error);
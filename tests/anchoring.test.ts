@@ -0,0 +1,74 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { describeRanges, resolveAnchors } from '../src/content/anchoring';
+
+function rangeOver(node: Node, start: number, end: number): Range {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  return range;
+}
+
+describe('anchoring', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should describe a range by its text, context and position', () => {
+    document.body.innerHTML = '<p>Caching is optional. Set a TTL to expire stale entries.</p>';
+    const text = document.querySelector('p')!.firstChild!;
+
+    const [anchor] = describeRanges([rangeOver(text, 21, 54)]);
+
+    expect(anchor?.quote.exact).toBe('Set a TTL to expire stale entries');
+    expect(anchor?.quote.prefix).toBe('Caching is optional. ');
+    expect(anchor?.quote.suffix).toBe('.');
+    expect(anchor?.position).toEqual({ type: 'TextPositionSelector', start: 21, end: 54 });
+  });
+
+  it('should find text again after the page re-renders it', () => {
+    const markup = '<p>Caching is <b>optional</b>. Set a TTL to expire stale entries.</p>';
+    document.body.innerHTML = markup;
+    const range = document.createRange();
+    range.setStart(document.querySelector('b')!.firstChild!, 0);
+    range.setEnd(document.querySelector('p')!.lastChild!, 10);
+    const [anchor] = describeRanges([range]);
+
+    document.body.innerHTML = markup;
+    const [resolved] = resolveAnchors([anchor!]);
+
+    expect(resolved?.toString()).toBe('optional. Set a TT');
+    expect(resolved?.startContainer.isConnected).toBe(true);
+  });
+
+  it('should pick the occurrence with matching context when text moves', () => {
+    document.body.innerHTML = '<p>Intro: restart the server.</p><p>Deploy: restart the server.</p>';
+    const [anchor] = describeRanges([rangeOver(document.querySelectorAll('p')[1].firstChild!, 8, 26)]);
+
+    document.body.innerHTML = '<p>New banner</p><p>Intro: restart the server.</p><p>Deploy: restart the server.</p>';
+    const [resolved] = resolveAnchors([anchor!]);
+
+    expect(resolved?.startContainer.parentElement).toBe(document.querySelectorAll('p')[2]);
+  });
+
+  it('should describe boundaries that fall between elements', () => {
+    document.body.innerHTML = '<p>Before <span>wrapped text</span> after</p>';
+    const range = document.createRange();
+    range.selectNode(document.querySelector('span')!);
+
+    const [anchor] = describeRanges([range]);
+
+    expect(anchor?.quote.exact).toBe('wrapped text');
+  });
+
+  it('should give up on text that is no longer on the page', () => {
+    document.body.innerHTML = '<p>Text that will be removed.</p>';
+    const [anchor] = describeRanges([rangeOver(document.querySelector('p')!.firstChild!, 0, 9)]);
+
+    document.body.innerHTML = '<p>Something else entirely.</p>';
+
+    expect(resolveAnchors([anchor!])).toEqual([null]);
+  });
+});
@@ -0,0 +1,77 @@
+import { tokenize, createBM25Index, scoreBM25, scoreCeiling } from '../src/shared/bm25';
+
+describe('tokenize', () => {
+  it('should lowercase words and drop punctuation', () => {
+    expect(tokenize('Retry on HTTP 503, then give up.')).toEqual(['retry', 'on', 'http', '503', 'then', 'give', 'up']);
+  });
+});
+
+describe('scoreBM25', () => {
+  const texts = [
+    'The server returned ERR_CONNECTION_RESET while uploading.',
+    'Uploads can be resumed after a dropped connection.',
+    'Billing is handled once a month.',
+  ];
+
+  it('should rank the chunk with an exact identifier first', () => {
+    const scores = scoreBM25(createBM25Index(texts), 'ERR_CONNECTION_RESET');
+
+    expect(scores[0]).toBeGreaterThan(0);
+    expect(scores[1]).toBe(0);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('should score 0 where none of the query words occur', () => {
+    expect(scoreBM25(createBM25Index(texts), 'quarterly invoices')).toEqual([0, 0, 0]);
+  });
+
+  it('should weigh rare words above common ones', () => {
+    const index = createBM25Index([
+      'the cache keeps the pages',
+      'the index keeps the vectors',
+      'the cache is cleared weekly',
+    ]);
+
+    const [pages, vectors] = scoreBM25(index, 'the vectors');
+
+    expect(vectors).toBeGreaterThan(pages);
+  });
+
+  it('should favour shorter chunks with the same matches', () => {
+    const index = createBM25Index([
+      'Set the timeout.',
+      'Set the timeout, and while you are there read the rest of this long section about retries and backoff.',
+    ]);
+
+    const [short, long] = scoreBM25(index, 'timeout');
+
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it('should handle an empty index', () => {
+    expect(scoreBM25(createBM25Index([]), 'anything')).toEqual([]);
+  });
+});
+
+describe('scoreCeiling', () => {
+  const texts = [
+    'The upload failed with ERR_QUOTA_EXCEEDED today.',
+    'The upload worked on the second try today.',
+    'The upload page lists every file today.',
+  ];
+
+  it('should be reached by a chunk holding a rare word of the query', () => {
+    const index = createBM25Index(texts);
+    const [first] = scoreBM25(index, 'ERR_QUOTA_EXCEEDED');
+
+    expect(first / scoreCeiling(index, 'ERR_QUOTA_EXCEEDED')).toBeGreaterThan(0.9);
+  });
+
+  it('should stay far above chunks matching only common words', () => {
+    const index = createBM25Index(texts);
+    const scores = scoreBM25(index, 'the upload today');
+    const ceiling = scoreCeiling(index, 'the upload today');
+
+    expect(Math.max(...scores) / ceiling).toBeLessThan(0.5);
+  });
+});
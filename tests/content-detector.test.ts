@@ -0,0 +1,81 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { detectMainContent, getLinkDensity } from '../src/content/content-detector';
+
+const PROSE = 'Semantic search compares the meaning of text, not its spelling, so related words still match.';
+
+describe('detectMainContent', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should pick the container holding most of the prose', () => {
+    document.body.innerHTML = `
+      <div id="links"><ul>
+        <li><a href="/a">A rather long navigation link label</a></li>
+        <li><a href="/b">Another rather long navigation link</a></li>
+      </ul></div>
+      <div id="story"><p>${PROSE}</p><p>${PROSE}</p><p>${PROSE}</p></div>
+      <div id="aside"><p>${PROSE}</p></div>
+    `;
+
+    const detection = detectMainContent();
+
+    expect(detection.root.id).toBe('story');
+    expect(detection.score).toBeGreaterThan(0);
+    expect(detection.confidence).toBeGreaterThan(0.5);
+    expect(detection.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('should not depend on a fixed selector list', () => {
+    document.body.innerHTML = `
+      <div class="menu"><p>Short teaser text that is long enough.</p></div>
+      <div id="x9"><p>${PROSE}</p><p>${PROSE}</p><p>${PROSE}</p><p>${PROSE}</p></div>
+    `;
+
+    expect(detectMainContent().root.id).toBe('x9');
+  });
+
+  it('should prefer semantic containers and content class names', () => {
+    document.body.innerHTML = `
+      <div><p>${PROSE}</p></div>
+      <article><p>${PROSE}</p></article>
+    `;
+
+    expect(detectMainContent().root.tagName).toBe('ARTICLE');
+  });
+
+  it('should discount containers made of links', () => {
+    document.body.innerHTML = `
+      <div id="linkfarm"><p><a href="#">${PROSE}</a></p><p><a href="#">${PROSE}</a></p></div>
+      <div id="text"><p>${PROSE}</p></div>
+    `;
+
+    expect(detectMainContent().root.id).toBe('text');
+  });
+
+  it('should fall back to the body with zero confidence when nothing scores', () => {
+    document.body.innerHTML = '<div><span>Tiny</span></div>';
+
+    const detection = detectMainContent();
+
+    expect(detection.root).toBe(document.body);
+    expect(detection.confidence).toBe(0);
+  });
+});
+
+describe('getLinkDensity', () => {
+  it('should measure the share of text inside links and buttons', () => {
+    document.body.innerHTML = '<div id="d">abcde<a href="#">fghij</a></div>';
+
+    expect(getLinkDensity(document.getElementById('d')!)).toBeCloseTo(0.5);
+  });
+
+  it('should be zero for empty elements', () => {
+    document.body.innerHTML = '<div id="d"></div>';
+
+    expect(getLinkDensity(document.getElementById('d')!)).toBe(0);
+  });
+});
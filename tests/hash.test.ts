@@ -0,0 +1,16 @@
+import { hashString } from '../src/shared/hash';
+
+describe('hashString', () => {
+  it('should be deterministic', () => {
+    expect(hashString('same text')).toBe(hashString('same text'));
+  });
+
+  it('should differ for different text and seeds', () => {
+    expect(hashString('text a')).not.toBe(hashString('text b'));
+    expect(hashString('text', 1)).not.toBe(hashString('text', 2));
+  });
+
+  it('should return a base-36 string', () => {
+    expect(hashString('')).toMatch(/^[0-9a-z]+$/);
+  });
+});
@@ -3,10 +3,22 @@
  */
 
 import {
+  batchHighlights,
   highlightText,
+  highlightElement,
+  highlightRange,
+  highlightFocusText,
+  outlineElement,
   removeHighlight,
   clearAllHighlights,
   setActiveHighlight,
+  setIncludeHidden,
+  setHighlightPalette,
+  setHighlightScore,
+  repairHighlights,
+  pinHighlights,
+  setPinVisible,
+  unpinHighlights,
   getHighlightCount
 } from '../src/content/highlighter';
 
@@ -53,6 +65,271 @@ describe('Highlighter', () => {
     });
   });
 
+  describe('highlightElement', () => {
+    it('should highlight every cell of a table row', () => {
+      document.body.innerHTML = `
+        <table><tr id="row"><td>3.2</td><td>45ms</td><td>yes</td></tr></table>
+      `;
+
+      const result = highlightElement('chunk-1', document.getElementById('row')!);
+
+      const highlights = document.querySelectorAll('.semantic-find-highlight');
+      expect(result).toBe(true);
+      expect(Array.from(highlights).map(h => h.textContent)).toEqual(['3.2', '45ms', 'yes']);
+      expect(document.querySelectorAll('tr > span')).toHaveLength(0);
+    });
+
+    it('should highlight exact text inside a code block', () => {
+      document.body.innerHTML = '<pre id="code"><span>if</span> (x) {\n  run();\n}</pre>';
+
+      const result = highlightElement('chunk-1', document.getElementById('code')!, '(x) {\n  run();');
+
+      const highlights = document.querySelectorAll('.semantic-find-highlight');
+      expect(result).toBe(true);
+      expect(Array.from(highlights).map(h => h.textContent).join('')).toBe('(x) {\n  run();');
+    });
+
+    it('should highlight repeated code text from where it starts', () => {
+      document.body.innerHTML = '<pre id="code">retry();\nretry();</pre>';
+      const code = document.getElementById('code')!;
+
+      highlightElement('chunk-1', code, 'retry()', 9);
+
+      const highlight = document.querySelector('.semantic-find-highlight')!;
+      expect(highlight.textContent).toBe('retry()');
+      expect(highlight.previousSibling?.textContent).toBe('retry();\n');
+    });
+
+    it('should return false when the exact text is missing', () => {
+      document.body.innerHTML = '<pre id="code">if (x) {\n  run();\n}</pre>';
+
+      expect(highlightElement('chunk-1', document.getElementById('code')!, 'if (x) { run(); }')).toBe(false);
+    });
+
+    it('should return false for an empty element', () => {
+      document.body.innerHTML = '<div id="empty">   </div>';
+
+      expect(highlightElement('chunk-1', document.getElementById('empty')!)).toBe(false);
+    });
+  });
+
+  describe('batchHighlights', () => {
+    it('should update highlights once the batch ends', () => {
+      document.body.innerHTML = '<p>First matching line</p><p>Second matching line</p>';
+
+      batchHighlights(() => {
+        highlightText('chunk-1', 'First matching line');
+        highlightText('chunk-2', 'Second matching line');
+        setActiveHighlight('chunk-2', false);
+        expect(document.querySelector('.semantic-find-highlight-active')).toBeNull();
+      });
+
+      expect(document.querySelector('.semantic-find-highlight-active')?.textContent).toBe('Second matching line');
+    });
+  });
+
+  describe('highlightRange', () => {
+    it('should highlight a range found by the caller', () => {
+      document.body.innerHTML = '<div class="textLayer"><span>Semantic </span><span>search</span></div>';
+      const spans = document.querySelectorAll('span');
+      const range = document.createRange();
+      range.setStart(spans[0].firstChild!, 0);
+      range.setEnd(spans[1].firstChild!, 6);
+
+      expect(highlightRange('chunk-1', range)).toBe(true);
+      expect(document.querySelectorAll('.semantic-find-highlight')).toHaveLength(2);
+    });
+
+    it('should not highlight a blank range', () => {
+      document.body.innerHTML = '<p>   </p>';
+      const range = document.createRange();
+      range.selectNodeContents(document.querySelector('p')!);
+
+      expect(highlightRange('chunk-1', range)).toBe(false);
+    });
+  });
+
+  describe('highlightFocusText', () => {
+    it('should emphasise a sentence within a highlighted chunk', () => {
+      document.body.innerHTML = '<p>Caching is optional. Set a TTL to expire stale entries. Restart to apply.</p>';
+      highlightText('chunk-1', 'caching is optional. set a ttl to expire stale entries. restart to apply.');
+
+      expect(highlightFocusText('chunk-1', 'Set a TTL to expire stale entries.')).toBe(true);
+
+      const focus = document.querySelector('.semantic-find-highlight-focus');
+      expect(focus?.textContent).toBe('Set a TTL to expire stale entries.');
+      expect(document.querySelector('.semantic-find-highlight-context')).not.toBeNull();
+    });
+
+    it('should not emphasise text in a chunk that is not highlighted', () => {
+      document.body.innerHTML = '<p>Set a TTL to expire stale entries.</p>';
+
+      expect(highlightFocusText('chunk-1', 'Set a TTL to expire stale entries.')).toBe(false);
+      expect(document.querySelector('.semantic-find-highlight-focus')).toBeNull();
+    });
+
+    it('should mark the focus sentence active with its chunk', () => {
+      document.body.innerHTML = '<p>Caching is optional. Set a TTL to expire stale entries.</p>';
+      highlightText('chunk-1', 'caching is optional. set a ttl to expire stale entries.');
+      highlightFocusText('chunk-1', 'Set a TTL to expire stale entries.');
+
+      setActiveHighlight('chunk-1');
+
+      expect(document.querySelector('.semantic-find-highlight-focus.semantic-find-highlight-active')).not.toBeNull();
+    });
+
+    it('should remove the focus with the other highlights', () => {
+      document.body.innerHTML = '<p>Caching is optional. Set a TTL to expire stale entries.</p>';
+      highlightText('chunk-1', 'caching is optional. set a ttl to expire stale entries.');
+      highlightFocusText('chunk-1', 'Set a TTL to expire stale entries.');
+
+      clearAllHighlights();
+
+      expect(document.querySelectorAll('.semantic-find-highlight')).toHaveLength(0);
+      expect(document.body.textContent).toBe('Caching is optional. Set a TTL to expire stale entries.');
+    });
+  });
+
+  describe('shadow DOM', () => {
+    it('should highlight text inside an open shadow root', () => {
+      document.body.innerHTML = '<div id="host"></div>';
+      const host = document.getElementById('host')!;
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<p>Text rendered by a web component</p>';
+
+      const result = highlightText('chunk-1', 'rendered by a web component');
+
+      expect(result).toBe(true);
+      expect(shadow.querySelector('.semantic-find-highlight')).not.toBeNull();
+    });
+
+    it('should highlight slotted light DOM text', () => {
+      document.body.innerHTML = '<div id="host"><span>Slotted content for the card</span></div>';
+      const host = document.getElementById('host')!;
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<section><slot></slot></section>';
+
+      const result = highlightText('chunk-1', 'slotted content');
+
+      expect(result).toBe(true);
+      expect(host.querySelector('.semantic-find-highlight')).not.toBeNull();
+    });
+
+    it('should highlight a match that crosses a shadow boundary', () => {
+      document.body.innerHTML = '<p>Before the component</p><div id="host"></div>';
+      const host = document.getElementById('host')!;
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<p>inside the component</p>';
+
+      const result = highlightText('chunk-1', 'before the component inside the component');
+
+      expect(result).toBe(true);
+      expect(document.querySelectorAll('.semantic-find-highlight').length).toBe(1);
+      expect(shadow.querySelectorAll('.semantic-find-highlight').length).toBe(1);
+    });
+  });
+
+  describe('setHighlightScore', () => {
+    afterEach(() => {
+      setHighlightPalette('yellow');
+    });
+
+    it('should class a chunk by the tier of its score', () => {
+      document.body.innerHTML = '<p>First test paragraph content</p><p>Second test paragraph content</p>';
+      highlightText('chunk-1', 'first test paragraph');
+      highlightText('chunk-2', 'second test paragraph');
+
+      setHighlightScore('chunk-1', 0.72);
+      setHighlightScore('chunk-2', 0.35);
+
+      expect(document.querySelector('[data-chunk-id="chunk-1"]')!.classList).toContain('semantic-find-highlight-strong');
+      expect(document.querySelector('[data-chunk-id="chunk-2"]')!.classList).toContain('semantic-find-highlight-weak');
+    });
+
+    it('should paint tiers in the chosen palette', () => {
+      document.body.innerHTML = '<p>Some test content to highlight</p>';
+      highlightText('chunk-1', 'test content');
+
+      setHighlightPalette('colorblind');
+
+      const styles = document.getElementById('semantic-find-highlight-styles')!.textContent;
+      expect(styles).toContain('::highlight(semantic-find-highlight-strong) { background-color: #56b4e9; }');
+      expect(styles).toContain('::highlight(semantic-find-highlight-active) { background-color: #e69f00; }');
+    });
+  });
+
+  describe('repairHighlights', () => {
+    it('should highlight text again after the page re-renders it', async () => {
+      const markup = '<p>Some test content to highlight</p>';
+      document.body.innerHTML = markup;
+      highlightText('chunk-1', 'test content');
+      // Ranges are anchored once the batch of highlights is done
+      await Promise.resolve();
+
+      document.body.innerHTML = markup;
+
+      expect(repairHighlights()).toBe(1);
+      expect(document.querySelector('.semantic-find-highlight')?.textContent).toBe('test content');
+    });
+
+    it('should leave intact highlights alone', async () => {
+      document.body.innerHTML = '<p>Some test content to highlight</p>';
+      highlightText('chunk-1', 'test content');
+      await Promise.resolve();
+
+      expect(repairHighlights()).toBe(0);
+      expect(document.querySelectorAll('.semantic-find-highlight')).toHaveLength(1);
+    });
+  });
+
+  describe('pinHighlights', () => {
+    afterEach(() => {
+      unpinHighlights('1');
+    });
+
+    it('should keep pinned highlights through a new search', () => {
+      document.body.innerHTML = '<p>Termination requires notice. Liability is capped.</p>';
+      highlightText('chunk-1', 'termination requires notice');
+
+      expect(pinHighlights('1', '#a8e6a1')).toBe(true);
+      clearAllHighlights();
+      highlightText('chunk-2', 'liability is capped');
+
+      expect(document.querySelector('.semantic-find-pin-1')?.textContent).toBe('Termination requires notice');
+      expect(getHighlightCount()).toBe(1);
+      expect(document.getElementById('semantic-find-highlight-styles')!.textContent)
+        .toContain('.semantic-find-pin-1 { background-color: #a8e6a1 !important; }');
+    });
+
+    it('should hide and show a pin', () => {
+      document.body.innerHTML = '<p>Some test content to highlight</p>';
+      highlightText('chunk-1', 'test content');
+      pinHighlights('1', '#a8e6a1');
+      const span = document.querySelector('.semantic-find-pin-1')!;
+
+      setPinVisible('1', false);
+      expect(span.classList).toContain('semantic-find-pin-hidden');
+
+      setPinVisible('1', true);
+      expect(span.classList).not.toContain('semantic-find-pin-hidden');
+    });
+
+    it('should remove a pin\'s highlights when unpinned', () => {
+      document.body.innerHTML = '<p>Some test content to highlight</p>';
+      highlightText('chunk-1', 'test content');
+      pinHighlights('1', '#a8e6a1');
+
+      unpinHighlights('1');
+
+      expect(document.querySelectorAll('.semantic-find-pin')).toHaveLength(0);
+      expect(document.querySelector('p')!.textContent).toBe('Some test content to highlight');
+    });
+
+    it('should not pin without highlights', () => {
+      expect(pinHighlights('1', '#a8e6a1')).toBe(false);
+    });
+  });
+
   describe('removeHighlight', () => {
     it('should remove highlight by chunk ID', () => {
       document.body.innerHTML = '<p>Some test content to highlight</p>';
@@ -117,6 +394,53 @@ describe('Highlighter', () => {
     it('should not throw for non-existent chunk', () => {
       expect(() => setActiveHighlight('non-existent')).not.toThrow();
     });
+
+    it('should open a closed details element before scrolling to it', () => {
+      document.body.innerHTML = '<details><summary>More</summary><p>Text hidden in the details body</p></details>';
+      setIncludeHidden(true);
+
+      expect(highlightText('chunk-1', 'text hidden in the details body')).toBe(true);
+      setActiveHighlight('chunk-1');
+
+      expect(document.querySelector('details')!.open).toBe(true);
+      setIncludeHidden(false);
+    });
+
+    it('should not match collapsed text unless hidden content is included', () => {
+      document.body.innerHTML = '<details><summary>More</summary><p>Text hidden in the details body</p></details>';
+
+      expect(highlightText('chunk-1', 'text hidden in the details body')).toBe(false);
+    });
+  });
+
+  describe('outlineElement', () => {
+    it('should outline the element only while its chunk is active', () => {
+      document.body.innerHTML = '<img id="img" alt="Diagram"><p>Other test content</p>';
+      const img = document.getElementById('img')!;
+      highlightText('chunk-2', 'other test content');
+
+      expect(outlineElement('chunk-1', img)).toBe(true);
+      expect(img.style.outline).toBe('');
+
+      setActiveHighlight('chunk-1');
+      expect(img.style.outline).toContain('solid');
+      expect(img.scrollIntoView).toHaveBeenCalled();
+
+      setActiveHighlight('chunk-2');
+      expect(img.style.outline).toBe('');
+    });
+
+    it('should drop the outline when highlights are cleared', () => {
+      document.body.innerHTML = '<button id="btn" aria-label="Close">×</button>';
+      const button = document.getElementById('btn')!;
+
+      outlineElement('chunk-1', button);
+      setActiveHighlight('chunk-1');
+      clearAllHighlights();
+
+      expect(button.style.outline).toBe('');
+      expect(getHighlightCount()).toBe(0);
+    });
   });
 
   describe('getHighlightCount', () => {
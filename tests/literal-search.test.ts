@@ -0,0 +1,118 @@
+import type { TextChunk } from '../src/shared/types';
+import type { TextNode } from '../src/content/text-chunker';
+import { createLiteralPattern, findLiteralMatches } from '../src/content/literal-search';
+import { QueryParseError } from '../src/shared/query-parser';
+
+function chunk(id: string, text: string, startOffset: number, frameId?: number): TextChunk {
+  return { id, text, startOffset, endOffset: startOffset + text.length, frameId };
+}
+
+describe('createLiteralPattern', () => {
+  it('should match exact text literally', () => {
+    const pattern = createLiteralPattern('a.b (c)', { mode: 'exact', caseSensitive: false });
+
+    expect('see a.b (c) here'.match(pattern)?.[0]).toBe('a.b (c)');
+    expect('axb (c)'.match(pattern)).toBeNull();
+  });
+
+  it('should match exact text across line breaks', () => {
+    const pattern = createLiteralPattern('retry policy', { mode: 'exact', caseSensitive: false });
+
+    expect(pattern.test('the retry\n  policy applies')).toBe(true);
+  });
+
+  it('should accept escapes of characters that need none', () => {
+    const pattern = createLiteralPattern('ERR\\-\\d+\\:', { mode: 'regex', caseSensitive: false });
+
+    expect('failed with err-42: retry'.match(pattern)?.[0]).toBe('err-42:');
+  });
+
+  it('should report an invalid regex as a query error', () => {
+    expect(() => createLiteralPattern('ERR_(', { mode: 'regex', caseSensitive: false })).toThrow(QueryParseError);
+  });
+});
+
+describe('findLiteralMatches', () => {
+  it('should return each occurrence as its own result', () => {
+    const chunks = [chunk('c1', 'Cache the cache.', 0), chunk('c2', 'No match here.', 17)];
+
+    const results = findLiteralMatches(chunks, 'cache', { mode: 'exact', caseSensitive: false });
+
+    expect(results.map((result) => result.chunk)).toMatchObject([
+      { id: 'c1:0', text: 'Cache', startOffset: 0, endOffset: 5 },
+      { id: 'c1:10', text: 'cache', startOffset: 10, endOffset: 15 },
+    ]);
+  });
+
+  it('should find a match that crosses a chunk boundary', () => {
+    const chunks = [chunk('c1', 'The retry', 0), chunk('c2', 'policy applies.', 10)];
+
+    const results = findLiteralMatches(chunks, 'retry policy applies', { mode: 'exact', caseSensitive: false });
+
+    expect(results.map((result) => result.chunk)).toMatchObject([
+      { id: 'c1:4', text: 'retry policy applies', startOffset: 4, endOffset: 24 },
+    ]);
+  });
+
+  it('should search the top frame\'s text nodes when given', () => {
+    const textNodes: TextNode[] = ['The retry', 'policy applies.'].map((text, i) => ({
+      text,
+      node: document.createTextNode(text),
+      startOffset: i * 10,
+    }));
+    // Text added to the page since it was chunked
+    const chunks = [chunk('c1', 'The retry', 0)];
+
+    const results = findLiteralMatches(chunks, 'retry policy', { mode: 'exact', caseSensitive: false }, { textNodes });
+
+    expect(results.map((result) => result.chunk)).toMatchObject([{ id: 'c1:4', text: 'retry policy', startOffset: 4 }]);
+  });
+
+  it('should respect case when asked to', () => {
+    const chunks = [chunk('c1', 'Cache the cache.', 0)];
+
+    const results = findLiteralMatches(chunks, 'Cache', { mode: 'exact', caseSensitive: true });
+
+    expect(results.map((result) => result.chunk.startOffset)).toEqual([0]);
+  });
+
+  it('should find regex matches', () => {
+    const chunks = [chunk('c1', 'Failed with ERR_TIMEOUT, then ERR_RESET.', 0)];
+
+    const results = findLiteralMatches(chunks, 'ERR_[A-Z]+', { mode: 'regex', caseSensitive: true });
+
+    expect(results.map((result) => result.chunk.text)).toEqual(['ERR_TIMEOUT', 'ERR_RESET']);
+  });
+
+  it('should count a match in overlapping chunks once', () => {
+    const chunks = [chunk('c1', 'First part overlaps', 0), chunk('c2', 'part overlaps with the next', 6)];
+
+    const results = findLiteralMatches(chunks, 'overlaps', { mode: 'exact', caseSensitive: false });
+
+    expect(results).toHaveLength(1);
+  });
+
+  it('should keep matches in different frames apart', () => {
+    const chunks = [chunk('c1', 'token', 0), chunk('f1', 'token', 0, 3)];
+
+    const results = findLiteralMatches(chunks, 'token', { mode: 'exact', caseSensitive: false });
+
+    expect(results.map((result) => result.chunk.frameId)).toEqual([undefined, 3]);
+  });
+
+  it('should apply the content filter to the chunk a match starts in', () => {
+    const chunks = [chunk('c1', 'Call retry() to retry.', 0), { ...chunk('c2', 'retry();', 23), blockType: 'code' as const }];
+
+    const code = findLiteralMatches(chunks, 'retry', { mode: 'exact', caseSensitive: false }, { contentFilter: 'code' });
+    const prose = findLiteralMatches(chunks, 'retry', { mode: 'exact', caseSensitive: false }, { contentFilter: 'prose' });
+
+    expect(code.map((result) => result.chunk.id)).toEqual(['c2:0']);
+    expect(prose.map((result) => result.chunk.id)).toEqual(['c1:5', 'c1:16']);
+  });
+
+  it('should skip empty regex matches', () => {
+    const chunks = [chunk('c1', 'bbb', 0)];
+
+    expect(findLiteralMatches(chunks, 'a*', { mode: 'regex', caseSensitive: false })).toEqual([]);
+  });
+});
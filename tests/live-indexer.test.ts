@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { startLiveIndexing, stopLiveIndexing, ignoreMutations } from '../src/content/live-indexer';
+
+// Let the observer deliver its records, then run the debounce timer
+async function settle(ms: number): Promise<void> {
+  await Promise.resolve();
+  jest.advanceTimersByTime(ms);
+}
+
+describe('live indexer', () => {
+  let callback: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    document.body.innerHTML = '<div id="feed"><p>First</p></div>';
+    callback = jest.fn();
+    startLiveIndexing(callback);
+  });
+
+  afterEach(() => {
+    stopLiveIndexing();
+    jest.useRealTimers();
+  });
+
+  it('should report changed elements once the page is quiet', async () => {
+    const feed = document.getElementById('feed')!;
+    feed.insertAdjacentHTML('beforeend', '<p>Second</p>');
+
+    await settle(100);
+    expect(callback).not.toHaveBeenCalled();
+
+    await settle(500);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0]).toEqual([feed]);
+  });
+
+  it('should batch a burst of changes into one report', async () => {
+    const feed = document.getElementById('feed')!;
+    for (let i = 0; i < 3; i++) {
+      feed.insertAdjacentHTML('beforeend', `<p>Message ${i}</p>`);
+      await settle(200);
+    }
+
+    await settle(500);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let a busy page postpone the report forever', async () => {
+    const feed = document.getElementById('feed')!;
+    for (let i = 0; i < 12; i++) {
+      feed.insertAdjacentHTML('beforeend', `<p>Message ${i}</p>`);
+      await settle(200);
+    }
+
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it('should report changes inside open shadow roots', async () => {
+    stopLiveIndexing();
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' }).innerHTML = '<div id="thread"><p>Reply</p></div>';
+    document.body.appendChild(host);
+    startLiveIndexing(callback);
+
+    const thread = host.shadowRoot!.getElementById('thread')!;
+    thread.insertAdjacentHTML('beforeend', '<p>Another reply</p>');
+
+    await settle(1000);
+    expect(callback).toHaveBeenCalledWith([thread]);
+  });
+
+  it('should watch shadow roots added to the page', async () => {
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' }).innerHTML = '<p>Reply</p>';
+    document.getElementById('feed')!.appendChild(host);
+    await settle(1000);
+    callback.mockClear();
+
+    host.shadowRoot!.appendChild(document.createElement('p'));
+
+    await settle(1000);
+    expect(callback).toHaveBeenCalledWith([host]);
+  });
+
+  it('should ignore its own overlay and highlight spans', async () => {
+    const overlay = document.createElement('div');
+    overlay.id = 'semantic-find-overlay';
+    document.body.appendChild(overlay);
+    overlay.textContent = 'typing in the search box';
+
+    await settle(1000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should ignore changes made inside ignoreMutations', async () => {
+    const paragraph = document.querySelector('p')!;
+    ignoreMutations(() => {
+      paragraph.innerHTML = '<span class="semantic-find-highlight">First</span>';
+    });
+
+    await settle(1000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should stop reporting once stopped', async () => {
+    stopLiveIndexing();
+    document.getElementById('feed')!.insertAdjacentHTML('beforeend', '<p>Second</p>');
+
+    await settle(1000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
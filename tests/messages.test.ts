@@ -3,6 +3,7 @@ import type {
   GetEmbeddingsRequest,
   SearchQueryRequest,
   GetSettingsRequest,
+  SetSiteSearchModeRequest,
   GenerateSummaryRequest,
 } from '../src/shared/messages';
 
@@ -46,6 +47,19 @@ describe('Message Types', () => {
     });
   });
 
+  describe('SetSiteSearchModeRequest', () => {
+    it('should carry one site and its mode', () => {
+      const request: SetSiteSearchModeRequest = {
+        type: 'SET_SITE_SEARCH_MODE',
+        origin: 'https://example.com',
+        mode: { mode: 'regex', caseSensitive: true },
+      };
+
+      expect(request.origin).toBe('https://example.com');
+      expect(request.mode.mode).toBe('regex');
+    });
+  });
+
   describe('GenerateSummaryRequest', () => {
     it('should have correct structure', () => {
       const request: GenerateSummaryRequest = {
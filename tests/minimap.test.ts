@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import type { SearchResult } from '../src/shared/types';
+import { getHighlightRect } from '../src/content/highlighter';
+import { showMinimap, hideMinimap, setMinimapActive, setOnMinimapSelect } from '../src/content/minimap';
+
+// jsdom doesn't lay pages out, so highlights are given positions here
+jest.mock('../src/content/highlighter', () => ({
+  getHighlightRect: jest.fn(),
+}));
+
+const positions: Record<string, number> = { 'chunk-1': 100, 'chunk-2': 1500 };
+
+function result(id: string, score: number, frameId?: number): SearchResult {
+  return {
+    chunk: { id, text: `Text of ${id}`, startOffset: 0, endOffset: 10, frameId },
+    score,
+    highlighted: true,
+  };
+}
+
+function getTicks(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>('#semantic-find-minimap .sf-minimap-tick'));
+}
+
+describe('minimap', () => {
+  beforeEach(() => {
+    jest.mocked(getHighlightRect).mockImplementation((chunkId) => (
+      chunkId in positions ? { top: positions[chunkId], width: 100, height: 16 } as DOMRect : null
+    ));
+    Object.defineProperty(document.documentElement, 'scrollHeight', { value: 2000, configurable: true });
+  });
+
+  afterEach(() => {
+    hideMinimap();
+  });
+
+  it('should place a tick where each result sits on the page', () => {
+    showMinimap([result('chunk-1', 0.7), result('chunk-2', 0.4)], 'yellow');
+
+    expect(getTicks().map((tick) => tick.style.top)).toEqual(['5%', '75%']);
+    expect(getTicks()[0].style.getPropertyValue('--sf-tick-color')).toBe('#ffff00');
+    expect(getTicks()[1].style.getPropertyValue('--sf-tick-color')).toBe('#fffbdc');
+  });
+
+  it('should leave out results it has no position for', () => {
+    showMinimap([result('chunk-1', 0.7), result('chunk-3', 0.6), result('chunk-2', 0.5, 4)], 'yellow');
+
+    expect(getTicks().map((tick) => tick.dataset.index)).toEqual(['0']);
+  });
+
+  it('should report the result of a clicked tick', () => {
+    const onSelect = jest.fn();
+    setOnMinimapSelect(onSelect);
+    showMinimap([result('chunk-1', 0.7), result('chunk-2', 0.4)], 'colorblind');
+
+    getTicks()[1].click();
+
+    expect(onSelect).toHaveBeenCalledWith(1);
+  });
+
+  it('should mark the current result', () => {
+    showMinimap([result('chunk-1', 0.7), result('chunk-2', 0.4)], 'yellow');
+
+    setMinimapActive(1);
+
+    expect(getTicks().map((tick) => tick.classList.contains('active'))).toEqual([false, true]);
+  });
+
+  it('should clear the ticks when hidden', () => {
+    showMinimap([result('chunk-1', 0.7)], 'yellow');
+
+    hideMinimap();
+
+    expect(getTicks()).toHaveLength(0);
+    expect(document.getElementById('semantic-find-minimap')!.classList.contains('visible')).toBe(false);
+  });
+});
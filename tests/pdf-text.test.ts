@@ -0,0 +1,65 @@
+import { getPageText, findItemPosition } from '../src/viewer/pdf-text';
+
+describe('getPageText', () => {
+  it('should run items on a line together and join lines with spaces', () => {
+    const pageText = getPageText([
+      { str: 'Semantic ', hasEOL: false },
+      { str: 'search', hasEOL: true },
+      { str: 'in PDFs.', hasEOL: true },
+    ]);
+
+    expect(pageText.lines).toEqual(['Semantic search', 'in PDFs.']);
+    expect(pageText.text).toBe('Semantic search in PDFs.');
+  });
+
+  it('should record where each item sits in the text', () => {
+    const pageText = getPageText([
+      { str: 'Hel', hasEOL: false },
+      { str: 'lo', hasEOL: true },
+      { str: 'world', hasEOL: false },
+    ]);
+
+    expect(pageText.itemSpans).toEqual([
+      { start: 0, end: 3 },
+      { start: 3, end: 5 },
+      { start: 6, end: 11 },
+    ]);
+  });
+
+  it('should skip blank lines', () => {
+    const pageText = getPageText([
+      { str: 'Title', hasEOL: true },
+      { str: '  ', hasEOL: true },
+      { str: 'Body', hasEOL: true },
+    ]);
+
+    expect(pageText.lines).toEqual(['Title', 'Body']);
+    expect(pageText.itemSpans[1]).toBeNull();
+  });
+});
+
+describe('findItemPosition', () => {
+  const pageText = getPageText([
+    { str: 'First ', hasEOL: false },
+    { str: 'line', hasEOL: true },
+    { str: 'Second line', hasEOL: true },
+  ]);
+
+  it('should find the item a range starts in', () => {
+    expect(findItemPosition(pageText, 8, 'start')).toEqual({ item: 1, offset: 2 });
+  });
+
+  it('should find the item a range ends in', () => {
+    expect(findItemPosition(pageText, 10, 'end')).toEqual({ item: 1, offset: 4 });
+    expect(findItemPosition(pageText, 17, 'end')).toEqual({ item: 2, offset: 6 });
+  });
+
+  it('should move off the space between lines', () => {
+    expect(findItemPosition(pageText, 10, 'start')).toEqual({ item: 2, offset: 0 });
+    expect(findItemPosition(pageText, 11, 'end')).toEqual({ item: 1, offset: 4 });
+  });
+
+  it('should return null past the end of the text', () => {
+    expect(findItemPosition(pageText, 100, 'start')).toBeNull();
+  });
+});
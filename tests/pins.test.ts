@@ -0,0 +1,25 @@
+import { PIN_COLORS, createPin } from '../src/content/pins';
+
+describe('createPin', () => {
+  it('should give each pin its own id and color', () => {
+    const first = createPin('termination', []);
+    const second = createPin('liability caps', [first]);
+
+    expect(second.id).not.toBe(first.id);
+    expect(second.color).not.toBe(first.color);
+    expect(second).toMatchObject({ query: 'liability caps', visible: true });
+  });
+
+  it('should reuse the color of an unpinned query', () => {
+    const first = createPin('termination', []);
+    const second = createPin('liability caps', [first]);
+
+    expect(createPin('data retention', [second]).color).toBe(first.color);
+  });
+
+  it('should still color pins once every color is taken', () => {
+    const pins = PIN_COLORS.map((_, i) => createPin(`query ${i}`, []));
+
+    expect(PIN_COLORS).toContain(createPin('one more', pins).color);
+  });
+});
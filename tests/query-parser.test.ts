@@ -0,0 +1,61 @@
+import { parseQuery, matchesQuery, QueryParseError } from '../src/shared/query-parser';
+
+describe('parseQuery', () => {
+  it('should pass a plain query through', () => {
+    expect(parseQuery('how do refunds work')).toEqual({
+      text: 'how do refunds work',
+      phrases: [],
+      required: [],
+      excluded: [],
+      excludedPhrases: [],
+    });
+  });
+
+  it('should read phrases, required and excluded terms', () => {
+    const query = parseQuery('"limitation of liability" +indemnity -draft -"sample clause" caps');
+
+    expect(query.phrases).toEqual(['limitation of liability']);
+    expect(query.required).toEqual(['indemnity']);
+    expect(query.excluded).toEqual(['draft']);
+    expect(query.excludedPhrases).toEqual(['sample clause']);
+    expect(query.text).toBe('limitation of liability indemnity caps');
+  });
+
+  it('should leave hyphens inside words alone', () => {
+    expect(parseQuery('e-mail opt-out').text).toBe('e-mail opt-out');
+  });
+
+  it('should reject an unclosed quote', () => {
+    expect(() => parseQuery('"termination notice')).toThrow(QueryParseError);
+  });
+
+  it('should reject empty quotes and operators without a word', () => {
+    expect(() => parseQuery('retention ""')).toThrow('Empty quotes');
+    expect(() => parseQuery('retention - policy')).toThrow('Expected a word after -');
+    expect(() => parseQuery('retention +')).toThrow('Expected a word after +');
+  });
+
+  it('should reject a query of exclusions only', () => {
+    expect(() => parseQuery('-draft -"sample clause"')).toThrow(QueryParseError);
+  });
+});
+
+describe('matchesQuery', () => {
+  const text = 'The Limitation of  Liability clause caps damages, except for indemnity.';
+
+  it('should match phrases regardless of case and spacing', () => {
+    expect(matchesQuery(text, parseQuery('"limitation of liability"'))).toBe(true);
+    expect(matchesQuery(text, parseQuery('"liability of limitation"'))).toBe(false);
+  });
+
+  it('should require +terms as whole words', () => {
+    expect(matchesQuery(text, parseQuery('caps +Indemnity'))).toBe(true);
+    expect(matchesQuery(text, parseQuery('caps +indemn'))).toBe(false);
+  });
+
+  it('should drop chunks with excluded terms or phrases', () => {
+    expect(matchesQuery(text, parseQuery('caps -damages'))).toBe(false);
+    expect(matchesQuery(text, parseQuery('caps -"except for"'))).toBe(false);
+    expect(matchesQuery(text, parseQuery('caps -warranty'))).toBe(true);
+  });
+});
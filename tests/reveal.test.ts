@@ -0,0 +1,132 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { isHidden, isRevealable, revealElement } from '../src/content/reveal';
+
+describe('reveal', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('isHidden', () => {
+    it('should treat the body of a closed details element as hidden', () => {
+      document.body.innerHTML = '<details><summary>More</summary><p id="body">Details body</p></details>';
+
+      expect(isHidden(document.getElementById('body')!)).toBe(true);
+      expect(isHidden(document.querySelector('summary')!)).toBe(false);
+    });
+
+    it('should treat descendants of hidden elements as hidden', () => {
+      document.body.innerHTML = '<div hidden><p id="inner">Inner</p></div><p id="shown">Shown</p>';
+
+      expect(isHidden(document.getElementById('inner')!)).toBe(true);
+      expect(isHidden(document.getElementById('shown')!)).toBe(false);
+    });
+  });
+
+  describe('details', () => {
+    it('should open a closed details element', () => {
+      document.body.innerHTML = '<details><summary>More</summary><p id="body">Details body</p></details>';
+      const body = document.getElementById('body')!;
+
+      expect(isRevealable(body)).toBe(true);
+      expect(revealElement(body)).toBe(true);
+      expect(document.querySelector('details')!.open).toBe(true);
+    });
+
+    it('should open nested details from the outside in', () => {
+      document.body.innerHTML = `
+        <details id="outer"><summary>Outer</summary>
+          <details id="inner"><summary>Inner</summary><p id="body">Deep text</p></details>
+        </details>`;
+      const opened: string[] = [];
+      document.querySelectorAll('details').forEach((details) => {
+        new MutationObserver(() => opened.push(details.id)).observe(details, { attributes: true });
+      });
+
+      revealElement(document.getElementById('body')!);
+
+      return Promise.resolve().then(() => {
+        expect(opened).toEqual(['outer', 'inner']);
+      });
+    });
+
+    it('should leave the summary alone', () => {
+      document.body.innerHTML = '<details><summary id="summary">More</summary><p>Details body</p></details>';
+
+      expect(isRevealable(document.getElementById('summary')!)).toBe(false);
+    });
+  });
+
+  describe('hidden="until-found"', () => {
+    it('should remove the hidden attribute and fire beforematch', () => {
+      document.body.innerHTML = '<div id="section" hidden="until-found"><p id="body">Found text</p></div>';
+      const section = document.getElementById('section')!;
+      const onBeforeMatch = jest.fn();
+      section.addEventListener('beforematch', onBeforeMatch);
+
+      revealElement(document.getElementById('body')!);
+
+      expect(section.hasAttribute('hidden')).toBe(false);
+      expect(onBeforeMatch).toHaveBeenCalled();
+    });
+
+    it('should not reveal plain hidden elements', () => {
+      document.body.innerHTML = '<div hidden><p id="body">Never shown</p></div>';
+
+      expect(isRevealable(document.getElementById('body')!)).toBe(false);
+    });
+  });
+
+  describe('tabs and accordions', () => {
+    it('should click the tab that controls an inactive panel', () => {
+      document.body.innerHTML = `
+        <div role="tablist">
+          <button role="tab" aria-selected="true" aria-controls="one">One</button>
+          <button role="tab" id="tab-two" aria-selected="false" aria-controls="two">Two</button>
+        </div>
+        <div role="tabpanel" id="one">First panel</div>
+        <div role="tabpanel" id="two" hidden><p id="body">Second panel</p></div>`;
+      const onClick = jest.fn();
+      document.getElementById('tab-two')!.addEventListener('click', onClick);
+
+      revealElement(document.getElementById('body')!);
+
+      expect(onClick).toHaveBeenCalled();
+    });
+
+    it('should find a tab through aria-labelledby', () => {
+      document.body.innerHTML = `
+        <button role="tab" id="tab-two" aria-selected="false">Two</button>
+        <div role="tabpanel" aria-labelledby="tab-two" hidden><p id="body">Second panel</p></div>`;
+
+      expect(isRevealable(document.getElementById('body')!)).toBe(true);
+    });
+
+    it('should expand a collapsed accordion section', () => {
+      document.body.innerHTML = `
+        <button id="toggle" aria-expanded="false" aria-controls="panel">Shipping</button>
+        <div id="panel" hidden><p id="body">Ships in two days</p></div>`;
+      const toggle = document.getElementById('toggle')!;
+      toggle.addEventListener('click', () => {
+        toggle.setAttribute('aria-expanded', 'true');
+        document.getElementById('panel')!.hidden = false;
+      });
+      const body = document.getElementById('body')!;
+
+      revealElement(body);
+
+      expect(isHidden(body)).toBe(false);
+      expect(isRevealable(body)).toBe(false);
+    });
+
+    it('should leave expanded sections alone', () => {
+      document.body.innerHTML = `
+        <button aria-expanded="true" aria-controls="panel">Shipping</button>
+        <div id="panel"><p id="body">Ships in two days</p></div>`;
+
+      expect(revealElement(document.getElementById('body')!)).toBe(false);
+    });
+  });
+});
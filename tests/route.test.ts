@@ -0,0 +1,18 @@
+import { getRouteKey } from '../src/content/route';
+
+describe('getRouteKey', () => {
+  it('should ignore anchors on the same page', () => {
+    expect(getRouteKey('https://example.com/docs/intro#install'))
+      .toBe(getRouteKey('https://example.com/docs/intro'));
+  });
+
+  it('should tell paths and query strings apart', () => {
+    expect(getRouteKey('https://example.com/docs/intro')).not.toBe(getRouteKey('https://example.com/docs/usage'));
+    expect(getRouteKey('https://example.com/search?q=a')).not.toBe(getRouteKey('https://example.com/search?q=b'));
+  });
+
+  it('should keep hash routes', () => {
+    expect(getRouteKey('https://mail.example.com/#/inbox')).toBe('https://mail.example.com/#/inbox');
+    expect(getRouteKey('https://mail.example.com/#!/sent')).not.toBe(getRouteKey('https://mail.example.com/#!/inbox'));
+  });
+});
@@ -0,0 +1,31 @@
+import { SCORE_BANDS, PALETTES, getScoreTier, lightenColor } from '../src/content/score-tiers';
+
+describe('getScoreTier', () => {
+  it('should band scores from strong to weak', () => {
+    expect(getScoreTier(0.82)).toBe('strong');
+    expect(getScoreTier(0.5)).toBe('medium');
+    expect(getScoreTier(0.31)).toBe('weak');
+  });
+
+  it('should put a score on a band edge in the higher band', () => {
+    expect(getScoreTier(0.6)).toBe('strong');
+    expect(getScoreTier(0.45)).toBe('medium');
+  });
+});
+
+describe('PALETTES', () => {
+  it('should color every tier differently from the current match', () => {
+    for (const colors of Object.values(PALETTES)) {
+      const tierColors = SCORE_BANDS.map(({ tier }) => colors.tiers[tier]);
+      expect(new Set(tierColors).size).toBe(SCORE_BANDS.length);
+      expect(tierColors).not.toContain(colors.active);
+    }
+  });
+});
+
+describe('lightenColor', () => {
+  it('should move a color towards white', () => {
+    expect(lightenColor('#ff9632', 0.5)).toBe('#ffcb99');
+    expect(lightenColor('#000000', 1)).toBe('#ffffff');
+  });
+});
@@ -0,0 +1,83 @@
+import { segmentSentences, segmentWords, getFirstWords } from '../src/shared/segmenter';
+
+const textOf = (text: string) => (span: { start: number; end: number }) => text.slice(span.start, span.end);
+
+describe('segmentSentences', () => {
+  it('should split English text on sentence boundaries', () => {
+    const text = 'The cat sat on the mat. It was a sunny day! Was it?';
+
+    const sentences = segmentSentences(text, 'en').map(textOf(text));
+
+    expect(sentences).toEqual(['The cat sat on the mat.', 'It was a sunny day!', 'Was it?']);
+  });
+
+  it('should split Japanese text on full-width terminators', () => {
+    const text = '今日は晴れです。明日は雨が降ります。';
+
+    const sentences = segmentSentences(text, 'ja').map(textOf(text));
+
+    expect(sentences).toEqual(['今日は晴れです。', '明日は雨が降ります。']);
+  });
+
+  it('should trim whitespace around sentences', () => {
+    const text = '   First one.   Second one.  ';
+
+    const sentences = segmentSentences(text, 'en');
+
+    expect(sentences.map(textOf(text))).toEqual(['First one.', 'Second one.']);
+    expect(sentences[0].start).toBe(3);
+  });
+
+  it('should return no spans for blank text', () => {
+    expect(segmentSentences('   ', 'en')).toHaveLength(0);
+  });
+
+  it('should fall back to the default locale for malformed languages', () => {
+    const text = 'One. Two.';
+
+    expect(segmentSentences(text, 'not a locale!').map(textOf(text))).toEqual(['One.', 'Two.']);
+  });
+});
+
+describe('segmentWords', () => {
+  it('should skip whitespace and mark punctuation', () => {
+    const text = 'Hello, world';
+
+    const words = segmentWords(text, 'en');
+
+    expect(words.map(textOf(text))).toEqual(['Hello', ',', 'world']);
+    expect(words.map(w => w.isWordLike)).toEqual([true, false, true]);
+  });
+
+  it('should split Chinese text without spaces into several words', () => {
+    const text = '我们正在阅读技术文档';
+
+    const words = segmentWords(text, 'zh').filter(w => w.isWordLike);
+
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.map(textOf(text)).join('')).toBe(text);
+  });
+});
+
+describe('getFirstWords', () => {
+  it('should return the text up to the Nth word', () => {
+    expect(getFirstWords('one two three four', 2, 'en')).toBe('one two');
+  });
+
+  it('should keep punctuation between words', () => {
+    expect(getFirstWords('well, this is it', 2, 'en')).toBe('well, this');
+  });
+
+  it('should return the whole text when it has fewer words', () => {
+    expect(getFirstWords('one two', 5, 'en')).toBe('one two');
+  });
+
+  it('should not return the whole text for long CJK runs', () => {
+    const text = '我们正在阅读技术文档并且搜索答案';
+
+    const firstWords = getFirstWords(text, 2, 'zh');
+
+    expect(firstWords.length).toBeLessThan(text.length);
+    expect(text.startsWith(firstWords)).toBe(true);
+  });
+});
@@ -1,4 +1,4 @@
-import { cosineSimilarity, findTopKSimilar } from '../src/shared/similarity';
+import { cosineSimilarity, findTopKSimilar, fuseScores } from '../src/shared/similarity';
 
 describe('cosineSimilarity', () => {
   it('should return 1 for identical vectors', () => {
@@ -108,3 +108,17 @@ describe('findTopKSimilar', () => {
     expect(results).toHaveLength(0);
   });
 });
+
+describe('fuseScores', () => {
+  it('should use the semantic score alone at weight 0', () => {
+    expect(fuseScores(0.42, 1, 0)).toBeCloseTo(0.42, 5);
+  });
+
+  it('should use the lexical score alone at weight 1', () => {
+    expect(fuseScores(0.42, 0.8, 1)).toBeCloseTo(0.8, 5);
+  });
+
+  it('should blend the scores in between', () => {
+    expect(fuseScores(0.4, 1, 0.3)).toBeCloseTo(0.58, 5);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { getRowText, findRowCell } from '../src/content/table-extractor';
+
+describe('findRowCell', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <table>
+        <caption>Timeouts</caption>
+        <thead><tr><th>Service</th><th>Limit</th></tr></thead>
+        <tbody><tr id="row"><td>api</td><td>  30s   or\n  30s </td></tr></tbody>
+      </table>
+    `;
+  });
+
+  it('should find the cell a row text offset falls in', () => {
+    const row = document.getElementById('row') as HTMLTableRowElement;
+    const text = getRowText(row);
+
+    const found = findRowCell(row, text.lastIndexOf('30s'));
+
+    expect(text).toBe('Timeouts — Service: api | Limit: 30s or 30s');
+    expect(found?.cell).toBe(row.cells[1]);
+    expect(row.cells[1].textContent!.slice(found!.offset)).toBe('30s ');
+  });
+
+  it('should not find a cell for the caption or header labels', () => {
+    const row = document.getElementById('row') as HTMLTableRowElement;
+    const text = getRowText(row);
+
+    expect(findRowCell(row, 0)).toBeNull();
+    expect(findRowCell(row, text.indexOf('Limit'))).toBeNull();
+  });
+});
@@ -2,7 +2,7 @@
  * @jest-environment jsdom
  */
 
-import { chunkText } from '../src/content/text-chunker';
+import { chunkText, extractPageText, updateTextNodes } from '../src/content/text-chunker';
 
 describe('chunkText', () => {
   it('should chunk text into segments of target size', () => {
@@ -107,3 +107,821 @@ describe('chunkText', () => {
     });
   });
 });
+
+describe('chunkText with pages', () => {
+  it('should not let a chunk span two pages', () => {
+    const textNodes = [
+      { text: 'End of page one.', node: {} as Node, startOffset: 0, page: 1 },
+      { text: 'Start of page two.', node: {} as Node, startOffset: 17, page: 2 },
+    ];
+
+    const chunks = chunkText(textNodes, 200);
+
+    expect(chunks.map(c => c.text)).toEqual(['End of page one.', 'Start of page two.']);
+    expect(chunks.map(c => c.page)).toEqual([1, 2]);
+  });
+});
+
+describe('chunkText sentence mode', () => {
+  it('should end chunks on sentence boundaries', () => {
+    const textNodes = [
+      { text: 'The cat sat on the mat. It was a sunny day. Birds were singing outside.', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 50, { mode: 'sentence' });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'The cat sat on the mat. It was a sunny day.',
+      'Birds were singing outside.',
+    ]);
+  });
+
+  it('should split a long text node into several chunks', () => {
+    const sentence = 'This sentence is about forty characters. ';
+    const textNodes = [
+      { text: sentence.repeat(10).trim(), node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 100, { mode: 'sentence' });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(chunk.text.endsWith('.')).toBe(true);
+    });
+  });
+
+  it('should join sentences that span text nodes', () => {
+    const textNodes = [
+      { text: 'Read the', node: {} as Node, startOffset: 0 },
+      { text: 'installation guide', node: {} as Node, startOffset: 9 },
+      { text: 'before starting.', node: {} as Node, startOffset: 28 },
+    ];
+
+    const chunks = chunkText(textNodes, 200, { mode: 'sentence' });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('Read the installation guide before starting.');
+  });
+
+  it('should map chunk offsets to the joined node text', () => {
+    const textNodes = [
+      { text: 'First sentence here.', node: {} as Node, startOffset: 0 },
+      { text: 'Second sentence here.', node: {} as Node, startOffset: 21 },
+    ];
+
+    const chunks = chunkText(textNodes, 25, { mode: 'sentence' });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].startOffset).toBe(21);
+    expect(chunks[1].endOffset).toBe(42);
+  });
+
+  it('should split sentences longer than the target size at word boundaries', () => {
+    const textNodes = [
+      { text: 'one two three four five six seven eight nine ten', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 15, { mode: 'sentence' });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(15);
+      expect(chunk.text).toBe(chunk.text.trim());
+    });
+  });
+
+  it('should repeat trailing sentences when overlap is set', () => {
+    const textNodes = [
+      { text: 'Alpha one. Beta two. Gamma three. Delta four.', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 25, { mode: 'sentence', overlap: 12 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Alpha one. Beta two.',
+      'Beta two. Gamma three.',
+      'Gamma three. Delta four.',
+    ]);
+  });
+
+  it('should not overlap when overlap is zero', () => {
+    const textNodes = [
+      { text: 'Alpha one. Beta two. Gamma three. Delta four.', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 25, { mode: 'sentence', overlap: 0 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Alpha one. Beta two.',
+      'Gamma three. Delta four.',
+    ]);
+  });
+});
+
+describe('chunkText with a custom measure', () => {
+  // One unit per word, like a tokenizer that never splits words
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+  it('should size sentence chunks with the measure', () => {
+    const textNodes = [
+      { text: 'One two three. Four five six. Seven eight nine.', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 6, { mode: 'sentence', measure: countWords });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'One two three. Four five six.',
+      'Seven eight nine.',
+    ]);
+  });
+
+  it('should split sentences that overflow the measured budget', () => {
+    const textNodes = [
+      { text: 'a b c d e f g h i j', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 4, { mode: 'sentence', measure: countWords });
+
+    chunks.forEach(chunk => {
+      expect(countWords(chunk.text)).toBeLessThanOrEqual(4);
+    });
+    expect(chunks.map(c => c.text).join(' ')).toBe('a b c d e f g h i j');
+  });
+
+  it('should count overlap with the measure', () => {
+    const textNodes = [
+      { text: 'One two three four five six seven eight nine ten. Eleven twelve. Thirteen fourteen fifteen.', node: {} as Node, startOffset: 0 },
+    ];
+
+    // Two words of overlap carry "Eleven twelve." over, although it is 14 characters
+    const chunks = chunkText(textNodes, 12, { mode: 'sentence', overlap: 2, measure: countWords });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'One two three four five six seven eight nine ten. Eleven twelve.',
+      'Eleven twelve. Thirteen fourteen fifteen.',
+    ]);
+  });
+
+  it('should leave room for the heading trail embedded with each chunk', () => {
+    const textNodes = [
+      { text: 'One two three. Four five six.', node: {} as Node, startOffset: 0, headingPath: ['Setup', 'Linux'] },
+    ];
+
+    const chunks = chunkText(textNodes, 6, {
+      mode: 'sentence',
+      measure: countWords,
+      prefixSize: (headingPath) => headingPath.length,
+    });
+
+    expect(chunks.map(c => c.text)).toEqual(['One two three.', 'Four five six.']);
+  });
+
+  it('should split rows and code lines that exceed the maximum size', () => {
+    const row = 'Name: widget | Description: a very long cell that goes on and on';
+    const line = 'call(with, many, arguments, that, never, end)';
+    const textNodes = [
+      { text: row, node: {} as Node, startOffset: 0, blockType: 'table-row' as const },
+      { text: line, node: {} as Node, startOffset: row.length + 1, blockType: 'code' as const },
+    ];
+
+    const chunks = chunkText(textNodes, 4, { measure: countWords, maxSize: 5 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(countWords(chunk.text)).toBeLessThanOrEqual(5);
+      expect((row + ' ' + line).slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+    }
+  });
+
+  it('should keep rows whole within the maximum size', () => {
+    const textNodes = [
+      { text: 'Name: widget | Size: large', node: {} as Node, startOffset: 0, blockType: 'table-row' as const },
+    ];
+
+    const chunks = chunkText(textNodes, 2, { measure: countWords, maxSize: 10 });
+
+    expect(chunks.map(c => c.text)).toEqual(['Name: widget | Size: large']);
+  });
+
+  it('should size node chunks with the measure', () => {
+    const textNodes = [
+      { text: 'one two', node: {} as Node, startOffset: 0 },
+      { text: 'three four', node: {} as Node, startOffset: 8 },
+      { text: 'five six', node: {} as Node, startOffset: 19 },
+    ];
+
+    const chunks = chunkText(textNodes, 4, { measure: countWords });
+
+    expect(chunks.map(c => c.text)).toEqual(['one two three four', 'five six']);
+  });
+});
+
+describe('chunkText with a locale', () => {
+  it('should chunk Japanese text on sentence boundaries', () => {
+    const textNodes = [
+      { text: '今日は晴れです。明日は雨が降ります。週末は曇りでしょう。', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 18, { mode: 'sentence', locale: 'ja' });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      '今日は晴れです。明日は雨が降ります。',
+      '週末は曇りでしょう。',
+    ]);
+  });
+
+  it('should split long CJK sentences at word boundaries', () => {
+    const textNodes = [
+      { text: '我们正在阅读技术文档并且搜索答案我们正在阅读技术文档并且搜索答案', node: {} as Node, startOffset: 0 },
+    ];
+
+    const chunks = chunkText(textNodes, 10, { mode: 'sentence', locale: 'zh' });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(10);
+    });
+  });
+});
+
+describe('extractPageText', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should extract text from open shadow roots', () => {
+    document.body.innerHTML = '<p>Light DOM paragraph</p><div id="host"></div>';
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p>Shadow DOM paragraph</p>';
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Light DOM paragraph', 'Shadow DOM paragraph']);
+  });
+
+  it('should extract slotted content in rendering order', () => {
+    document.body.innerHTML = '<div id="host"><span slot="body">Slotted body text</span></div>';
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<h2>Card title</h2><slot name="body"></slot><p>Card footer note</p>';
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Card title', 'Slotted body text', 'Card footer note']);
+  });
+
+  it('should skip light DOM children that are not slotted', () => {
+    document.body.innerHTML = '<div id="host"><span>Never rendered</span></div>';
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p>Only shadow content</p>';
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Only shadow content']);
+  });
+
+  it('should keep the text nodes so chunks map back to the DOM', () => {
+    document.body.innerHTML = '<div id="host"></div>';
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p>Mapped shadow text</p>';
+
+    const [textNode] = extractPageText();
+
+    expect(textNode.node.parentNode).toBe(shadow.querySelector('p'));
+  });
+});
+
+describe('structural metadata', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should record the heading trail of each text node', () => {
+    document.body.innerHTML = `
+      <h1>Guide</h1>
+      <h2>Installation</h2>
+      <h3>Linux</h3>
+      <p>Use the package manager.</p>
+      <h2>Usage</h2>
+      <p>Run the command.</p>
+    `;
+
+    const nodes = extractPageText();
+    const byText = (text: string) => nodes.find(n => n.text === text)!;
+
+    expect(byText('Use the package manager.').headingPath).toEqual(['Guide', 'Installation', 'Linux']);
+    expect(byText('Run the command.').headingPath).toEqual(['Guide', 'Usage']);
+  });
+
+  it('should classify block types', () => {
+    document.body.innerHTML = `
+      <p>Plain paragraph text</p>
+      <ul><li>List item text</li></ul>
+      <table><tr><td>Table cell text</td></tr></table>
+      <pre><code>const code = 1;</code></pre>
+      <blockquote><p>Quoted paragraph text</p></blockquote>
+    `;
+
+    const types = extractPageText().map(n => n.blockType);
+
+    expect(types).toEqual(['paragraph', 'list-item', 'table-cell', 'code', 'blockquote']);
+  });
+
+  it('should build selectors that find the owning block', () => {
+    document.body.innerHTML = `
+      <div id="docs"><p>First paragraph</p><p>Second <em>paragraph</em> text</p></div>
+    `;
+
+    const nodes = extractPageText();
+
+    expect(nodes[1].selector).toBe('#docs > p:nth-of-type(2)');
+    expect(document.querySelector(nodes[2].selector!)!.textContent).toBe('Second paragraph text');
+  });
+
+  it('should number siblings by tag on a flat page', () => {
+    document.body.innerHTML = Array.from({ length: 30 }, (_, i) => (
+      i % 3 === 0 ? `<div>Block number ${i}</div>` : `<p>Paragraph number ${i}</p>`
+    )).join('');
+
+    const nodes = extractPageText();
+
+    expect(nodes).toHaveLength(30);
+    for (const node of nodes) {
+      expect(document.querySelector(node.selector!)!.textContent).toBe(node.text);
+    }
+    expect(nodes[4].selector).toBe('body > p:nth-of-type(3)');
+  });
+
+  it('should not let chunks span two sections', () => {
+    document.body.innerHTML = `
+      <h2>Install</h2><p>Download the archive.</p>
+      <h2>Configure</h2><p>Edit the config file.</p>
+    `;
+
+    const chunks = chunkText(extractPageText(), 500, { mode: 'sentence' });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Install Download the archive.',
+      'Configure Edit the config file.',
+    ]);
+    expect(chunks.map(c => c.headingPath)).toEqual([['Install'], ['Configure']]);
+  });
+
+  it('should copy block type and selector onto chunks', () => {
+    document.body.innerHTML = '<main><p>Only paragraph here</p></main>';
+
+    const [chunk] = chunkText(extractPageText(), 200);
+
+    expect(chunk.blockType).toBe('paragraph');
+    expect(chunk.selector).toBe('body > main > p');
+  });
+});
+
+describe('tables', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const TABLE = `
+    <table>
+      <caption>Release benchmarks</caption>
+      <thead><tr><th>Version</th><th>Latency</th><th>Supported</th></tr></thead>
+      <tbody>
+        <tr><td>3.2</td><td>45ms</td><td>yes</td></tr>
+        <tr><td>2.9</td><td>80ms</td><td>no</td></tr>
+      </tbody>
+    </table>
+  `;
+
+  it('should emit one labelled text node per body row', () => {
+    document.body.innerHTML = TABLE;
+
+    const rows = extractPageText().filter(n => n.blockType === 'table-row');
+
+    expect(rows.map(n => n.text)).toEqual([
+      'Release benchmarks — Version: 3.2 | Latency: 45ms | Supported: yes',
+      'Release benchmarks — Version: 2.9 | Latency: 80ms | Supported: no',
+    ]);
+    expect(rows[0].node).toBeInstanceOf(HTMLTableRowElement);
+    expect(document.querySelector(rows[1].selector!)!.textContent).toBe('2.980msno');
+  });
+
+  it('should use a first row of th cells as headers', () => {
+    document.body.innerHTML = `
+      <table>
+        <tr><th>Name</th><th>Span</th></tr>
+        <tr><td colspan="2">Merged cell</td></tr>
+        <tr><td>Ada</td><td>36</td></tr>
+      </table>
+    `;
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Name: Merged cell', 'Name: Ada | Span: 36']);
+  });
+
+  it('should leave layout tables as plain cells', () => {
+    document.body.innerHTML = '<table><tr><td>Left column text</td><td>Right column text</td></tr></table>';
+
+    const nodes = extractPageText();
+
+    expect(nodes.map(n => n.blockType)).toEqual(['table-cell', 'table-cell']);
+  });
+
+  it('should chunk each row on its own', () => {
+    document.body.innerHTML = `<p>Benchmarks below.</p>${TABLE}<p>More text after.</p>`;
+
+    const chunks = chunkText(extractPageText(), 1000, { mode: 'sentence' });
+    const rowChunks = chunks.filter(c => c.blockType === 'table-row');
+
+    expect(rowChunks).toHaveLength(2);
+    expect(rowChunks[0].text).toContain('Latency: 45ms');
+    expect(rowChunks[0].text).not.toContain('80ms');
+    expect(chunks[0].text).toBe('Benchmarks below. Release benchmarks');
+    expect(chunks[chunks.length - 1].text).toBe('More text after.');
+  });
+});
+
+describe('code blocks', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should keep a code block whole with its whitespace', () => {
+    document.body.innerHTML = `
+      <p>Install it first.</p>
+      <pre><code class="language-Python">
+def greet(name):
+    print(<span>"hi"</span>, name)
+</code></pre>
+    `;
+
+    const nodes = extractPageText();
+    const code = nodes.find(n => n.blockType === 'code')!;
+
+    expect(code.text).toBe('def greet(name):\n    print("hi", name)');
+    expect(code.node).toBeInstanceOf(HTMLPreElement);
+    expect(code.language).toBe('python');
+    expect(nodes).toHaveLength(2);
+  });
+
+  it('should not merge code with surrounding prose', () => {
+    document.body.innerHTML = '<p>Run this command.</p><pre class="lang-sh">npm install</pre><p>Then build it.</p>';
+
+    const chunks = chunkText(extractPageText(), 500, { mode: 'sentence' });
+
+    expect(chunks.map(c => c.text)).toEqual(['Run this command.', 'npm install', 'Then build it.']);
+    expect(chunks[1].blockType).toBe('code');
+    expect(chunks[1].language).toBe('sh');
+  });
+
+  it('should split long code blocks on line boundaries', () => {
+    const lines = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;'];
+    document.body.innerHTML = `<pre>${lines.join('\n')}</pre>`;
+
+    const chunks = chunkText(extractPageText(), 30);
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'const a = 1;\nconst b = 2;',
+      'const c = 3;\nconst d = 4;',
+    ]);
+    expect(chunks[1].startOffset).toBe(26);
+  });
+});
+
+describe('content filtering', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should keep prose whose class names look like page furniture', () => {
+    document.body.innerHTML = `
+      <article>
+        <h1 class="article-header">Understanding embeddings in depth</h1>
+        <p>Embeddings map text to vectors, so similar meanings end up close together.</p>
+        <div class="comment-explained">This comment explains the algorithm.</div>
+      </article>
+    `;
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toContain('Understanding embeddings in depth');
+    expect(texts).toContain('This comment explains the algorithm.');
+  });
+
+  it('should drop link-heavy elements with furniture class names', () => {
+    document.body.innerHTML = `
+      <p>Actual article paragraph text.</p>
+      <div class="share-bar"><a href="#">Share on social</a> <button>Copy link</button></div>
+    `;
+
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Actual article paragraph text.']);
+  });
+});
+
+describe('site rules', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should extract only from the rule content root', () => {
+    document.body.innerHTML = `
+      <article><p>Detected article paragraph text.</p></article>
+      <div id="wiki-body"><p>Wiki page body text.</p></div>
+    `;
+
+    const texts = extractPageText({ contentRoot: '#wiki-body', exclude: [], forceInclude: false }).map(n => n.text);
+
+    expect(texts).toEqual(['Wiki page body text.']);
+  });
+
+  it('should fall back to detection when the content root is missing', () => {
+    document.body.innerHTML = '<p>Ordinary page text.</p>';
+
+    const texts = extractPageText({ contentRoot: '#nope', exclude: [], forceInclude: false }).map(n => n.text);
+
+    expect(texts).toEqual(['Ordinary page text.']);
+  });
+
+  it('should leave out excluded elements and ignore invalid selectors', () => {
+    document.body.innerHTML = `
+      <p>Kept paragraph text.</p>
+      <div class="toc"><p>Table of contents entry</p></div>
+    `;
+
+    const texts = extractPageText({ exclude: ['.toc', '[[bad'], forceInclude: false }).map(n => n.text);
+
+    expect(texts).toEqual(['Kept paragraph text.']);
+  });
+
+  it('should keep elements matching skip patterns when forced', () => {
+    document.body.innerHTML = `
+      <p>Page text here.</p>
+      <div class="wiki-nav-links"><a href="#">Linked wiki page</a></div>
+    `;
+
+    expect(extractPageText().map(n => n.text)).toEqual(['Page text here.']);
+    expect(extractPageText({ exclude: [], forceInclude: true }).map(n => n.text))
+      .toEqual(['Page text here.', 'Linked wiki page']);
+  });
+});
+
+describe('accessible text', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should not index attribute text unless enabled', () => {
+    document.body.innerHTML = '<p>Some page text.</p><img src="a.png" alt="Diagram of the pipeline">';
+
+    expect(extractPageText().map(n => n.text)).toEqual(['Some page text.']);
+  });
+
+  it('should index alt, aria-label and title text in document order', () => {
+    document.body.innerHTML = `
+      <h2>Results</h2>
+      <img src="a.png" alt="Diagram of the pipeline">
+      <p>Some page text.</p>
+      <button aria-label="Close">×</button>
+      <span title="Last edited yesterday">Edited</span>
+      <a href="#" title="Docs">Docs</a>
+    `;
+
+    const nodes = extractPageText(undefined, { accessibleText: true });
+    const accessible = nodes.filter(n => n.blockType === 'accessible');
+
+    expect(nodes.map(n => n.text)).toEqual([
+      'Results', 'Diagram of the pipeline', 'Some page text.', 'Close', 'Last edited yesterday', 'Edited', 'Docs',
+    ]);
+    expect(accessible.map(n => (n.node as Element).tagName)).toEqual(['IMG', 'BUTTON', 'SPAN']);
+    expect(accessible[0].headingPath).toEqual(['Results']);
+  });
+
+  it('should index attribute text inside shadow roots in rendering order', () => {
+    document.body.innerHTML = '<p>Before the widget.</p><div id="host"></div><p>After the widget.</p>';
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p>Widget heading text.</p><button aria-label="Dismiss widget">×</button>';
+
+    const nodes = extractPageText(undefined, { accessibleText: true });
+
+    expect(nodes.map(n => n.text)).toEqual([
+      'Before the widget.', 'Widget heading text.', 'Dismiss widget', 'After the widget.',
+    ]);
+  });
+
+  it('should pair figure captions with image alt text and outline the figure', () => {
+    document.body.innerHTML = `
+      <figure id="fig"><img src="a.png" alt="Bar chart"><figcaption>Latency by version</figcaption></figure>
+    `;
+
+    const nodes = extractPageText(undefined, { accessibleText: true });
+
+    expect(nodes.map(n => n.text)).toEqual(['Bar chart — Latency by version']);
+    expect(nodes[0].selector).toBe('#fig');
+  });
+
+  it('should index short form labels against their control', () => {
+    document.body.innerHTML = '<form><label for="q">Go</label><input id="q"></form>';
+
+    const [label] = extractPageText(undefined, { accessibleText: true });
+
+    expect(label.text).toBe('Go');
+    expect(label.selector).toBe('#q');
+  });
+
+  it('should keep each accessible text in its own chunk', () => {
+    document.body.innerHTML = '<p>Intro text here.</p><img src="a.png" alt="Photo of a cat"><p>Outro text here.</p>';
+
+    const chunks = chunkText(extractPageText(undefined, { accessibleText: true }), 500);
+
+    expect(chunks.map(c => c.text)).toEqual(['Intro text here.', 'Photo of a cat', 'Outro text here.']);
+    expect(chunks[1].blockType).toBe('accessible');
+  });
+});
+
+describe('chunk ids', () => {
+  const PAGE = `
+    <h2>Setup</h2><p>Install the package first.</p><p>Repeat after me.</p>
+    <h2>Usage</h2><p>Repeat after me.</p>
+  `;
+
+  it('should give the same chunks the same ids on every extraction', () => {
+    document.body.innerHTML = PAGE;
+    const first = chunkText(extractPageText(), 30).map(c => c.id);
+
+    document.body.innerHTML = PAGE;
+    const second = chunkText(extractPageText(), 30).map(c => c.id);
+
+    expect(second).toEqual(first);
+    expect(first[0]).toMatch(/^chunk-[0-9a-z]+$/);
+  });
+
+  it('should tell the same text apart by its position', () => {
+    document.body.innerHTML = PAGE;
+
+    const chunks = chunkText(extractPageText(), 30);
+    const repeated = chunks.filter(c => c.text.includes('Repeat after me.'));
+
+    expect(repeated).toHaveLength(2);
+    expect(repeated[0].id).not.toBe(repeated[1].id);
+  });
+
+  it('should number chunks that share text and position', () => {
+    const textNodes = [
+      { text: 'Same words', node: {} as Node, startOffset: 0 },
+      { text: 'Same words', node: {} as Node, startOffset: 11 },
+    ];
+
+    const [a, b] = chunkText(textNodes, 5);
+
+    expect(b.id).toBe(`${a.id}-2`);
+  });
+
+  it('should change the id when the text changes', () => {
+    const [a] = chunkText([{ text: 'Version one', node: {} as Node, startOffset: 0 }], 200);
+    const [b] = chunkText([{ text: 'Version two', node: {} as Node, startOffset: 0 }], 200);
+
+    expect(a.id).not.toBe(b.id);
+  });
+});
+
+describe('updateTextNodes', () => {
+  const PAGE = `
+    <main id="root">
+      <h2>Messages</h2>
+      <div id="feed"><p>First message in the thread.</p></div>
+      <pre><code id="snippet">let a = 1;</code></pre>
+    </main>`;
+
+  let root: Element;
+
+  beforeEach(() => {
+    document.body.innerHTML = PAGE;
+    root = document.getElementById('root')!;
+  });
+
+  function extract() {
+    return extractPageText(undefined, { contentRoot: root });
+  }
+
+  it('should add text from appended elements', () => {
+    const textNodes = extract();
+    const feed = document.getElementById('feed')!;
+    feed.insertAdjacentHTML('beforeend', '<p>Second message arrived later.</p>');
+
+    const updated = updateTextNodes(textNodes, [feed], undefined, { contentRoot: root });
+
+    expect(updated.map(n => n.text)).toEqual(extract().map(n => n.text));
+    expect(updated.find(n => n.text === 'Second message arrived later.')?.headingPath).toEqual(['Messages']);
+  });
+
+  it('should keep untouched text nodes as they were', () => {
+    const textNodes = extract();
+    const feed = document.getElementById('feed')!;
+    feed.insertAdjacentHTML('beforeend', '<p>Second message arrived later.</p>');
+
+    const updated = updateTextNodes(textNodes, [feed], undefined, { contentRoot: root });
+
+    expect(updated[0].node).toBe(textNodes[0].node);
+  });
+
+  it('should drop removed text and renumber offsets', () => {
+    const textNodes = extract();
+    const feed = document.getElementById('feed')!;
+    feed.replaceChildren();
+
+    const updated = updateTextNodes(textNodes, [feed], undefined, { contentRoot: root });
+
+    expect(updated.map(n => n.text)).toEqual(['Messages', 'let a = 1;']);
+    expect(updated[1].startOffset).toBe('Messages'.length + 1);
+  });
+
+  it('should re-extract a whole code block when part of it changes', () => {
+    const textNodes = extract();
+    const snippet = document.getElementById('snippet')!;
+    snippet.textContent = 'let a = 1;\nlet b = 2;';
+
+    const updated = updateTextNodes(textNodes, [snippet], undefined, { contentRoot: root });
+    const code = updated.filter(n => n.blockType === 'code');
+
+    expect(code).toHaveLength(1);
+    expect(code[0].text).toBe('let a = 1;\nlet b = 2;');
+  });
+
+  it('should re-extract everything when a heading changes', () => {
+    const textNodes = extract();
+    const feed = document.getElementById('feed')!;
+    feed.insertAdjacentHTML('afterbegin', '<h3>Today</h3>');
+
+    const updated = updateTextNodes(textNodes, [feed], undefined, { contentRoot: root });
+
+    expect(updated.find(n => n.text === 'let a = 1;')?.headingPath).toEqual(['Messages', 'Today']);
+  });
+
+  describe('with shadow roots', () => {
+    let shadow: ShadowRoot;
+
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <main id="root">
+          <div id="feed"><p>Light paragraph text.</p><div id="host"></div></div>
+          <p>Another paragraph here.</p>
+        </main>`;
+      root = document.getElementById('root')!;
+      shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<div id="thread"><p>Shadow paragraph text.</p></div>';
+    });
+
+    it('should keep shadow text once and in rendering order', () => {
+      const textNodes = extract();
+      const feed = document.getElementById('feed')!;
+      feed.insertAdjacentHTML('afterbegin', '<p>Newly added paragraph.</p>');
+
+      const updated = updateTextNodes(textNodes, [feed], undefined, { contentRoot: root });
+
+      expect(updated.map(n => n.text)).toEqual([
+        'Newly added paragraph.',
+        'Light paragraph text.',
+        'Shadow paragraph text.',
+        'Another paragraph here.',
+      ]);
+    });
+
+    it('should re-extract changes inside a shadow root', () => {
+      const textNodes = extract();
+      const thread = shadow.getElementById('thread')!;
+      thread.insertAdjacentHTML('beforeend', '<p>Shadow reply text.</p>');
+
+      const updated = updateTextNodes(textNodes, [thread], undefined, { contentRoot: root });
+
+      expect(updated.map(n => n.text)).toEqual(extract().map(n => n.text));
+      expect(updated.map(n => n.text)).toContain('Shadow reply text.');
+    });
+  });
+});
+
+describe('hidden content', () => {
+  const PAGE = `
+    <p>Always visible paragraph.</p>
+    <details><summary>Advanced options</summary><p>Text inside a closed details element.</p></details>
+    <div hidden><p>Text that is never shown.</p></div>`;
+
+  beforeEach(() => {
+    document.body.innerHTML = PAGE;
+  });
+
+  it('should skip collapsed sections by default', () => {
+    const texts = extractPageText().map(n => n.text);
+
+    expect(texts).toEqual(['Always visible paragraph.', 'Advanced options']);
+  });
+
+  it('should include revealable sections when asked', () => {
+    const texts = extractPageText(undefined, { includeHidden: true }).map(n => n.text);
+
+    expect(texts).toContain('Text inside a closed details element.');
+    expect(texts).not.toContain('Text that is never shown.');
+  });
+});
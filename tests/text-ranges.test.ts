@@ -0,0 +1,101 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { chunkText, extractPageText } from '../src/content/text-chunker';
+import { mapToRanges, findBlock } from '../src/content/text-ranges';
+
+describe('mapToRanges', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should map a chunk back to the text nodes it came from', () => {
+    document.body.innerHTML = '<p>  Caching is <b>optional</b> for small sites.</p>';
+    const textNodes = extractPageText();
+    const [chunk] = chunkText(textNodes, 200);
+
+    const ranges = mapToRanges(textNodes, chunk.startOffset, chunk.endOffset);
+
+    expect(ranges?.map(String)).toEqual(['Caching is', 'optional', 'for small sites.']);
+  });
+
+  it('should find the right occurrence of repeated text', () => {
+    document.body.innerHTML = `
+      <p>Restart the server to apply changes.</p>
+      <p>Other notes about the deployment.</p>
+      <p>Restart the server to apply changes.</p>
+    `;
+    const textNodes = extractPageText();
+    const chunks = chunkText(textNodes, 40);
+    const repeated = chunks.filter((chunk) => chunk.text === 'Restart the server to apply changes.');
+
+    const [last] = mapToRanges(textNodes, repeated[1].startOffset, repeated[1].endOffset)!;
+
+    expect(repeated).toHaveLength(2);
+    expect(last.startContainer.parentElement).toBe(document.querySelectorAll('p')[2]);
+  });
+
+  it('should map part of a text node', () => {
+    document.body.innerHTML = '<p>First sentence here. Second sentence here.</p>';
+    const textNodes = extractPageText();
+
+    const ranges = mapToRanges(textNodes, 21, 42);
+
+    expect(ranges?.map(String)).toEqual(['Second sentence here.']);
+  });
+
+  it('should give up once the page has changed', () => {
+    document.body.innerHTML = '<p>Text that will be edited later.</p>';
+    const textNodes = extractPageText();
+    document.querySelector('p')!.firstChild!.textContent = 'Edited text in its place.';
+
+    expect(mapToRanges(textNodes, 0, 10)).toBeNull();
+  });
+
+  it('should not map text that was not read from a text node', () => {
+    document.body.innerHTML = '<table><tr><th>Size</th><th>Time</th></tr><tr><td>3.2</td><td>45ms</td></tr></table>';
+    const textNodes = extractPageText();
+
+    expect(mapToRanges(textNodes, 0, textNodes[0].text.length)).toBeNull();
+  });
+});
+
+describe('findBlock', () => {
+  const table = (rows: string[]) => `<table><tr><th>Name</th></tr>${rows.map((row) => `<tr><td>${row}</td></tr>`).join('')}</table>`;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should find the row a table chunk was read from inside a shadow root', () => {
+    document.body.innerHTML = `${table(['light row one'])}<div id="host"></div>`;
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = table(['shadow row one']);
+    const textNodes = extractPageText();
+    const [chunk] = chunkText(textNodes, 200).filter((c) => c.text.includes('shadow row one'));
+
+    const row = findBlock(textNodes, chunk.startOffset)?.element;
+
+    expect(row?.textContent).toBe('shadow row one');
+    expect(row?.getRootNode()).toBe(shadow);
+  });
+
+  it('should find the code block a line of code came from and its place in it', () => {
+    document.body.innerHTML = '<p>Run this:</p><pre><code>npm install\nnpm test</code></pre>';
+    const textNodes = extractPageText();
+    const code = textNodes.find((node) => node.blockType === 'code')!;
+
+    expect(findBlock(textNodes, code.startOffset + 12)).toEqual({ element: document.querySelector('pre'), offset: 12 });
+  });
+
+  it('should not return elements for prose or removed blocks', () => {
+    document.body.innerHTML = `<p>Some prose here.</p>${table(['a removed row'])}`;
+    const textNodes = extractPageText();
+    const row = textNodes.find((node) => node.blockType === 'table-row')!;
+
+    expect(findBlock(textNodes, 0)).toBeNull();
+    document.querySelector('table')!.remove();
+    expect(findBlock(textNodes, row.startOffset)).toBeNull();
+  });
+});
@@ -25,6 +25,11 @@ describe('Types and Defaults', () => {
       expect(DEFAULT_SETTINGS.similarityThreshold).toBeGreaterThanOrEqual(0);
       expect(DEFAULT_SETTINGS.similarityThreshold).toBeLessThanOrEqual(1);
     });
+
+    it('should have lexical weight between 0 and 1', () => {
+      expect(DEFAULT_SETTINGS.lexicalWeight).toBeGreaterThanOrEqual(0);
+      expect(DEFAULT_SETTINGS.lexicalWeight).toBeLessThanOrEqual(1);
+    });
   });
 
   describe('Type structures', () => {
@@ -71,7 +76,22 @@ describe('Types and Defaults', () => {
     it('should allow valid Settings', () => {
       const settings: Settings = {
         chunkSize: 150,
+        chunkSizeUnit: 'tokens',
+        chunkTokenLimit: 96,
+        chunkingMode: 'sentence',
+        chunkOverlap: 30,
         similarityThreshold: 0.4,
+        lexicalWeight: 0.5,
+        contentFilter: 'code',
+        indexAccessibleText: true,
+        includeHiddenContent: true,
+        highlightPalette: 'colorblind',
+        siteRules: {
+          'https://wiki.example.com': { contentRoot: '#wiki-body', exclude: ['.toc'], forceInclude: true },
+        },
+        siteSearchModes: {
+          'https://docs.example.com': { mode: 'regex', caseSensitive: true },
+        },
         aiSummaryEnabled: true,
         llmModelDownloaded: true,
       };
@@ -9,6 +9,8 @@ module.exports = (env, argv) => {
       'service-worker': './src/background/service-worker.ts',
       'content-script': './src/content/content-script.ts',
       'popup': './src/popup/popup.ts',
+      'options': './src/options/options.ts',
+      'viewer': './src/viewer/viewer.ts',
       'offscreen': './src/offscreen/offscreen.ts',
     },
     output: {
@@ -34,6 +36,14 @@ module.exports = (env, argv) => {
           { from: 'manifest.json', to: 'manifest.json' },
           { from: 'src/popup/popup.html', to: 'popup.html' },
           { from: 'src/popup/popup.css', to: 'popup.css' },
+          { from: 'src/options/options.html', to: 'options.html' },
+          { from: 'src/options/options.css', to: 'options.css' },
+          { from: 'src/viewer/viewer.html', to: 'viewer.html' },
+          { from: 'src/viewer/viewer.css', to: 'viewer.css' },
+          { from: 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs', to: 'pdf.worker.min.mjs' },
+          { from: 'node_modules/pdfjs-dist/cmaps', to: 'cmaps' },
+          { from: 'node_modules/pdfjs-dist/standard_fonts', to: 'standard_fonts' },
+          { from: 'node_modules/pdfjs-dist/wasm', to: 'wasm' },
           { from: 'src/styles/overlay.css', to: 'overlay.css' },
           { from: 'src/offscreen/offscreen.html', to: 'offscreen.html' },
           { from: 'public/icons', to: 'icons', noErrorOnMissing: true },